@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'bun:test'
+import type { ExtendedEnvironmentInfo } from './types'
+import { DEFAULT_CONFIG } from './types'
+import { getCacheKey, getEnvironmentFingerprint } from './cache'
+
+const INFO: ExtendedEnvironmentInfo = {
+  osType: 'Linux',
+  osVersion: '6.8.0',
+  architecture: 'x64',
+  shellPath: '/bin/bash',
+  shellName: 'bash',
+  tools: [{ name: 'git', path: '/usr/bin/git', version: '2.43.0' }],
+  cwd: '/srv/app',
+  isGitRepository: true,
+}
+
+describe('getEnvironmentFingerprint', () => {
+  it('ignores tool versions and the shell path', () => {
+    const upgraded = { ...INFO, shellPath: '/usr/local/bin/bash', tools: [{ name: 'git', path: '/usr/local/bin/git', version: '2.45.1' }] }
+
+    expect(getEnvironmentFingerprint(upgraded)).toBe(getEnvironmentFingerprint(INFO))
+  })
+
+  it('changes with the working directory the prompt names', () => {
+    expect(getEnvironmentFingerprint({ ...INFO, cwd: '/srv/other' })).not.toBe(getEnvironmentFingerprint(INFO))
+  })
+})
+
+describe('getCacheKey', () => {
+  it('collapses whitespace in the prompt', () => {
+    expect(getCacheKey('generate', '  list   files ', INFO, DEFAULT_CONFIG)).toBe(getCacheKey('generate', 'list files', INFO, DEFAULT_CONFIG))
+  })
+
+  it('changes with the model and the redaction settings', () => {
+    const key = getCacheKey('generate', 'list files', INFO, DEFAULT_CONFIG)
+
+    expect(getCacheKey('generate', 'list files', INFO, { ...DEFAULT_CONFIG, API_MODEL: 'gpt-4o' })).not.toBe(key)
+    expect(getCacheKey('generate', 'list files', INFO, { ...DEFAULT_CONFIG, REDACT_PROMPTS: false })).not.toBe(key)
+  })
+})
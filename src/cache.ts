@@ -0,0 +1,173 @@
+import * as crypto from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as process from 'node:process'
+import { getConfigDir } from './config'
+import type { CacheStats, EnvironmentInfo, ExtendedEnvironmentInfo, ShellManConfig } from './types'
+
+interface CacheEntry {
+  createdAt: string
+  provider: string
+  model: string
+  reply: string
+}
+
+/**
+ * Get the directory holding one file per cached reply
+ */
+export function getCacheDir(): string {
+  return path.join(getConfigDir(), 'cache')
+}
+
+function getEntryPath(key: string): string {
+  return path.join(getCacheDir(), `${key}.json`)
+}
+
+/**
+ * Reduce the environment to what changes the answer
+ * - Tool versions and the shell path are left out, so an upgrade still hits the cache
+ * - The working directory is part of it, the prompt names it and replies can hold paths under it
+ * - So is the project summary, a reply about one project's scripts does not apply to another
+ */
+export function getEnvironmentFingerprint(info: EnvironmentInfo): string {
+  const extended = info as Partial<ExtendedEnvironmentInfo>
+  return JSON.stringify([
+    info.osType.toLowerCase(),
+    info.architecture,
+    info.shellName.toLowerCase(),
+    extended.distro || '',
+    extended.packageManager || '',
+    extended.coreutils || '',
+    (extended.tools || []).map(tool => tool.name).sort(),
+    extended.cwd || '',
+    Boolean(extended.isGitRepository),
+    extended.project?.lines || [],
+  ])
+}
+
+/**
+ * Build the cache key of a request from its kind, the prompt, the environment and the model
+ * - The prompt is compared with runs of whitespace collapsed and without surrounding whitespace
+ * - Custom prompt templates and house rules are part of the key, editing them asks the provider again
+ * - So are the redaction settings, a reply holds the placeholders of the run that cached it
+ */
+export function getCacheKey(
+  kind: string,
+  prompt: string,
+  info: EnvironmentInfo,
+  config: ShellManConfig,
+): string {
+  const parts = [
+    kind,
+    prompt.trim().replace(/\s+/g, ' '),
+    getEnvironmentFingerprint(info),
+    config.API_PROVIDER,
+    config.API_MODEL,
+    config.API_CUSTOM_ENDPOINT || '',
+    config.PROMPT_TEMPLATES ? JSON.stringify([config.PROMPT_TEMPLATES.templates, config.PROMPT_TEMPLATES.rules]) : '',
+    config.REDACT_PROMPTS,
+    config.REDACTION_RULES || {},
+  ]
+  return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex')
+}
+
+function readEntry(filePath: string): CacheEntry | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheEntry
+  }
+  catch {
+    return undefined
+  }
+}
+
+function isExpired(entry: CacheEntry, ttlSeconds: number, now = Date.now()): boolean {
+  return now - Date.parse(entry.createdAt) > ttlSeconds * 1000
+}
+
+/**
+ * Return the cached reply for a key, removing it when it is older than the TTL
+ */
+export function readCachedReply(key: string, ttlSeconds: number): string | undefined {
+  const filePath = getEntryPath(key)
+  const entry = readEntry(filePath)
+  if (!entry)
+    return undefined
+  if (isExpired(entry, ttlSeconds)) {
+    fs.rmSync(filePath, { force: true })
+    return undefined
+  }
+  return entry.reply
+}
+
+/**
+ * Store a reply, failures are ignored since the cache only saves time
+ * - Entries are written to a temporary file and renamed, so a concurrent reader never sees half a file
+ */
+export function writeCachedReply(key: string, reply: string, config: ShellManConfig): void {
+  const entry: CacheEntry = {
+    createdAt: new Date().toISOString(),
+    provider: config.API_PROVIDER,
+    model: config.API_MODEL,
+    reply,
+  }
+  const filePath = getEntryPath(key)
+  const temporaryPath = `${filePath}.${process.pid}.tmp`
+  try {
+    fs.mkdirSync(getCacheDir(), { recursive: true, mode: 0o700 })
+    fs.writeFileSync(temporaryPath, JSON.stringify(entry), { encoding: 'utf-8', mode: 0o600 })
+    fs.renameSync(temporaryPath, filePath)
+  }
+  catch {
+    fs.rmSync(temporaryPath, { force: true })
+  }
+}
+
+function listEntryFiles(): string[] {
+  try {
+    return fs.readdirSync(getCacheDir())
+      .filter(name => name.endsWith('.json'))
+      .map(name => path.join(getCacheDir(), name))
+  }
+  catch {
+    return []
+  }
+}
+
+/**
+ * Count the cached replies and their size, entries older than the TTL are counted as expired
+ */
+export function getCacheStats(ttlSeconds: number): CacheStats {
+  const stats: CacheStats = { directory: getCacheDir(), entries: 0, expired: 0, bytes: 0 }
+  const now = Date.now()
+  for (const filePath of listEntryFiles()) {
+    const entry = readEntry(filePath)
+    if (!entry)
+      continue
+    stats.entries++
+    stats.bytes += fs.statSync(filePath).size
+    if (isExpired(entry, ttlSeconds, now))
+      stats.expired++
+    if (!stats.oldest || entry.createdAt < stats.oldest)
+      stats.oldest = entry.createdAt
+    if (!stats.newest || entry.createdAt > stats.newest)
+      stats.newest = entry.createdAt
+  }
+  return stats
+}
+
+/**
+ * Delete cached replies and return how many were removed
+ * - With a TTL only expired entries are deleted, unreadable files always are
+ */
+export function clearCache(ttlSeconds?: number): number {
+  let removed = 0
+  const now = Date.now()
+  for (const filePath of listEntryFiles()) {
+    const entry = readEntry(filePath)
+    if (ttlSeconds !== undefined && entry && !isExpired(entry, ttlSeconds, now))
+      continue
+    fs.rmSync(filePath, { force: true })
+    removed++
+  }
+  return removed
+}
@@ -0,0 +1,38 @@
+import { findMissingPrograms } from './environment'
+import { logger } from './logger'
+import { analyzeCommand } from './safety'
+import type { CommandCandidate, EnvironmentInfo, GeneratedCommand } from './types'
+
+/**
+ * Attach the risk level and the programs missing from PATH to each generated command or plan step
+ */
+export function assessCandidates<T extends Pick<GeneratedCommand, 'command'>>(
+  commands: T[],
+  info: EnvironmentInfo,
+): (T & Pick<CommandCandidate, 'risk' | 'missingPrograms'>)[] {
+  return commands.map(generated => ({
+    ...generated,
+    risk: analyzeCommand(generated.command, info),
+    missingPrograms: findMissingPrograms(generated.command, info),
+  }))
+}
+
+/**
+ * Summarize a candidate in one line: explanation, risk and availability
+ */
+export function describeCandidate(candidate: Pick<CommandCandidate, 'explanation' | 'risk' | 'missingPrograms'>): string {
+  const availability = candidate.missingPrograms.length > 0
+    ? `missing ${candidate.missingPrograms.join(', ')}`
+    : 'all programs found'
+  return [candidate.explanation, `${candidate.risk.level} risk`, availability].filter(Boolean).join(' · ')
+}
+
+/**
+ * Print every candidate, numbered in the order the provider ranked them
+ */
+export function displayCandidates(candidates: CommandCandidate[]): void {
+  candidates.forEach((candidate, index) => {
+    const log = candidate.risk.level === 'high' || candidate.missingPrograms.length > 0 ? logger.error : logger.info
+    log.tag(`Candidate ${index + 1}`).data(candidate.command).message(describeCandidate(candidate)).print()
+  })
+}
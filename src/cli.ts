@@ -1,139 +1,83 @@
 import * as process from 'node:process'
 import { Command } from 'commander'
-import ora from 'ora'
-import prompts from 'prompts'
-import { logger } from '@shermant/logger'
-import { displayEnvironmentInfo, gatherEnvironmentInfo } from './environment'
+import { logger } from './logger'
 import { getPackageVersion } from './utils'
-import { initConfig } from './config'
-import type { ShellManConfig } from './types'
-
-// Helper function to prompt the user for text input
-async function promptForText(): Promise<string> {
-  const response = await prompts({
-    type: 'text',
-    name: 'input',
-    message: 'Please enter your script:',
-    validate: value =>
-      value.length > 0
-        ? true
-        : 'Please enter your script use natural human language',
-  })
-
-  return response.input
-}
+import { registerAskCommand } from './commands/ask'
+import { registerCacheCommand } from './commands/cache'
+import { registerConfigCommand } from './commands/config'
+import { registerDoctorCommand } from './commands/doctor'
+import { registerEnvCommand } from './commands/env'
+import { registerExplainCommand } from './commands/explain'
+import { registerFixCommand } from './commands/fix'
+import { registerHistoryCommand } from './commands/history'
+import { registerInitCommand } from './commands/init'
+import { registerModelsCommand } from './commands/models'
+import { registerPromptCommand } from './commands/prompt'
+import { registerScriptCommand } from './commands/script'
+import { registerTranslateCommand } from './commands/translate'
 
 // Main function, exported as cli for bin script use
 export async function cli() {
   try {
-    const args = process.argv.slice(2)
-    const isDebug = args.includes('--debug') || args.includes('-d')
-    const nonInteractive = isDebug || args.includes('--non-interactive')
-
     const program = new Command()
 
     // Setup basic commander with proper descriptions
     program
       .name('shellman')
-      .description('A tool to display shell and environment information')
+      .description('Translate natural language into shell commands for your environment')
       .version(getPackageVersion(), '-v, --version', 'Display the version of shellman')
       .helpOption('-h, --help', 'Display help information')
-      .allowExcessArguments(true) // Allow excess arguments without error
-
-    // Define command line options with detailed descriptions
-    program
-      .option('-d, --debug', 'Display debug information')
-      .option('-t, --text <text>', 'Text to display with environment info')
-      .option('--non-interactive', 'Run in non-interactive mode')
-      // Add a dummy variadic argument to capture all other arguments
-      .argument('[text...]', 'Text to display with environment info')
+      // Options belong to the command they follow, so flags inside the request text stay text
+      .enablePositionalOptions()
+
+    registerAskCommand(program)
+    registerConfigCommand(program)
+    registerEnvCommand(program)
+    registerExplainCommand(program)
+    registerFixCommand(program)
+    registerDoctorCommand(program)
+    registerHistoryCommand(program)
+    registerInitCommand(program)
+    registerCacheCommand(program)
+    registerModelsCommand(program)
+    registerScriptCommand(program)
+    registerTranslateCommand(program)
+    registerPromptCommand(program)
 
     // Add examples to help text using the .addHelpText method
     program.addHelpText('after', `
 Examples:
-  shellman                     Interactive mode, prompts for text input
-  shellman -t "Hello World"    Displays environment info with 'Hello World' as input
-  shellman -v                  Displays the program version
-  shellman -d                  Displays environment and debug info
+  shellman                          Interactive mode, prompts for text input
+  shellman find large logs          Generates a command from positional text
+  shellman list files with ls -d    Flags after the first word are part of the text
+  shellman -y "show disk usage"     Generates and runs the command without confirmation
+  shellman -n 3 find big files      Suggests three alternatives to pick from
+  shellman --dry-run delete *.tmp   Previews which files the command would change before asking
+  shellman --format plain list pdfs Prints only the command, for scripts and editors
+  shellman --context run the tests  Describes the project's scripts and tooling to the model
+  shellman --show-payload list pdfs Prints the redacted request instead of sending it
+  shellman config get API_MODEL     Prints a single configuration value
+  shellman models --provider ollama Lists the models a provider serves
+  shellman --profile local list pdfs Uses the settings of a named profile
+  shellman explain "tar -xzf a.tgz" Explains an existing command
+  shellman translate --to fish "export A=1 && ls *.txt"
+                                    Rewrites a bash snippet for fish, with notes on differences
+  shellman script -o setup create a venv and install requirements
+                                    Plans several steps and saves them as setup.sh
+  shellman prompt render fix "gti status"
+                                    Prints the prompt fix would send, with templates and house rules
+  shellman fix                      Corrects the last failed command recorded by shellman init
+  shellman history list             Lists previously generated commands
+  eval "$(shellman init zsh)"       Binds Ctrl-G to turn the typed line into a command
+  shellman doctor                   Checks configuration and environment
+  shellman env --project            Shows the project summary --context would send
+  shellman cache stats              Shows how many provider replies are cached
+  shellman -v                       Displays the program version
+  shellman -d                       Displays environment and debug info
 `)
 
-    // Parse arguments
-    program.parse(process.argv)
-
-    // Get options after parsing
-    const options = program.opts()
-    if (isDebug)
-      logger.info.tag('Parsed options').data(options).print()
-
-    // Handle positional arguments
-    const positionalArgs = program.args
-    if (isDebug)
-      logger.info.tag('Positional args').data(positionalArgs).print()
-
-    // Get text from either -t flag or positional args
-    let userText: string | undefined = options.text
-
-    // If no text option but we have positional args, use those as text
-    if (!userText && positionalArgs.length > 0) {
-      userText = positionalArgs.join(' ')
-    }
-
-    // Create a spinner
-    const spinner = ora('Starting shellman...').start()
-
-    try {
-      // Configuration initialization
-      if (nonInteractive) {
-        spinner.text = 'Loading configuration in non-interactive mode...'
-        const config: ShellManConfig = await initConfig(true)
-        if (isDebug)
-          logger.info.tag('Configuration loaded').data(config).message(`loaded from ${config.source}`).appendDivider().print()
-      }
-      else {
-        // In interactive mode, completely stop the spinner and show a clear message
-        spinner.stop()
-        // Initialize config in interactive mode
-        const config: ShellManConfig = await initConfig(false)
-        if (isDebug)
-          logger.info.tag('Configuration loaded').data(config).print()
-
-        // Restart spinner after configuration is complete
-        spinner.start('Continuing with shellman...')
-      }
-
-      // Gather information with spinner
-      spinner.text = 'Gathering environment information...'
-      const environmentInfo = await gatherEnvironmentInfo(spinner)
-
-      if (userText) {
-        // Case: Text provided (either as flag or positional arg)
-        spinner.succeed('Environment information gathered')
-        displayEnvironmentInfo(environmentInfo, userText, options.debug)
-      }
-      else if (nonInteractive) {
-        // In non-interactive mode without text, just display environment info
-        spinner.succeed('Environment information gathered')
-        displayEnvironmentInfo(
-          environmentInfo,
-          'Running in non-interactive mode',
-          options.debug,
-        )
-      }
-      else {
-        // Case: No text provided, prompt for input
-        spinner.succeed('Environment information gathered')
-
-        // Only prompt if we didn't get text from command line
-        const userInput = await promptForText()
-        displayEnvironmentInfo(environmentInfo, userInput, options.debug)
-      }
-    }
-    catch (error) {
-      spinner.fail(
-        `Error: ${error instanceof Error ? error.message : String(error)}`,
-      )
-      process.exit(1)
-    }
+    // Parse arguments and run the matching command
+    await program.parseAsync(process.argv)
   }
   catch (error) {
     logger.error.tag('Error in CLI execution').data(error).print()
@@ -0,0 +1,147 @@
+import * as process from 'node:process'
+import type { Command } from 'commander'
+import ora from 'ora'
+import { logger } from '../logger'
+import { addProjectContext, displayEnvironmentInfo, gatherEnvironmentInfo } from '../environment'
+import { confirmAndExecute } from '../executor'
+import { assessCandidates, displayCandidates } from '../candidates'
+import { buildGenerationMessages, generateCandidates, generateCommand } from '../generator'
+import { buildCommandOutput, isMachineFormat, printResult } from '../output'
+import { previewCommand } from '../preview'
+import type { CommandCandidate, EnvironmentInfo, ShellManConfig } from '../types'
+import { promptForCandidate, promptForText } from '../ui'
+import type { RunContext } from './shared'
+import { addCommonOptions, addOutputOptions, addPromptOptions, failAndExit, getCompletionOptions, getConfirmOptions, getRunContext, loadConfig, printPayload, recordHistory, withCancel } from './shared'
+
+// Upper bound for -n, more alternatives than this are rarely distinct
+const MAX_CANDIDATES = 5
+
+// Generate one command or several alternatives, each assessed for risk and missing programs
+async function generate(
+  text: string,
+  environmentInfo: EnvironmentInfo,
+  config: ShellManConfig,
+  count: number,
+  spinner: ReturnType<typeof ora>,
+  context: RunContext,
+): Promise<CommandCandidate[]> {
+  const generated = await withCancel((signal) => {
+    const options = getCompletionOptions(spinner, context, 'command', signal)
+    return count <= 1
+      ? generateCommand(text, environmentInfo, config, options).then(command => [command])
+      : generateCandidates(text, environmentInfo, config, count, options)
+  })
+  spinner.succeed(count <= 1 ? 'Command generated' : `${generated.length} ${generated.length === 1 ? 'command' : 'commands'} generated`)
+  return assessCandidates(generated, environmentInfo)
+}
+
+// Let the user pick one of several commands, returning undefined when nothing was picked
+async function selectCandidate(candidates: CommandCandidate[], context: RunContext): Promise<CommandCandidate | undefined> {
+  if (candidates.length === 1)
+    return candidates[0]
+  // Without a prompt, show every alternative and continue with the provider's first choice
+  if (context.nonInteractive) {
+    displayCandidates(candidates)
+    return candidates[0]
+  }
+  return promptForCandidate(candidates)
+}
+
+// Generate a command for the user's text, then confirm and run it, or print it for --format json|plain
+async function runAsk(userText: string | undefined, count: number, context: RunContext) {
+  const startedAt = Date.now()
+  // Create a spinner
+  const spinner = ora('Starting shellman...').start()
+
+  try {
+    const config = await loadConfig(spinner, context)
+
+    // Gather information with spinner
+    spinner.text = 'Gathering environment information...'
+    const environmentInfo = await addProjectContext(await gatherEnvironmentInfo(spinner), config, spinner)
+    spinner.succeed('Environment information gathered')
+    displayEnvironmentInfo(environmentInfo, undefined, context.isDebug)
+
+    if (!userText && (isMachineFormat(context.format) || context.showPayload))
+      throw new Error(`Pass the request as text when using ${context.showPayload ? '--show-payload' : `--format ${context.format}`}`)
+
+    if (!userText && context.nonInteractive) {
+      // In non-interactive mode without text there is nothing to generate
+      displayEnvironmentInfo(environmentInfo, 'Running in non-interactive mode')
+      return
+    }
+
+    // Only prompt if we didn't get text from command line
+    if (!userText)
+      userText = await promptForText()
+    if (!userText)
+      return
+
+    if (context.showPayload) {
+      printPayload(spinner, config, buildGenerationMessages(userText, environmentInfo, count, config.PROMPT_TEMPLATES))
+      return
+    }
+
+    spinner.start(`Generating command with ${config.API_PROVIDER} (${config.API_MODEL})...`)
+    const requestStartedAt = Date.now()
+    const candidates = await generate(userText, environmentInfo, config, count, spinner, context)
+    const requestMs = Date.now() - requestStartedAt
+
+    // Machine formats print the result for the caller to run, the provider's first choice is the command
+    if (isMachineFormat(context.format)) {
+      const preview = context.dryRun ? await previewCommand(candidates[0].command, environmentInfo) : undefined
+      const timing = { totalMs: Date.now() - startedAt, requestMs }
+      printResult(context.format, buildCommandOutput(userText, candidates, environmentInfo, config, timing, preview), candidates[0].command)
+      await recordHistory(config, userText, environmentInfo, { command: candidates[0].command, executed: false })
+      return
+    }
+
+    const generated = await selectCandidate(candidates, context)
+    if (!generated)
+      return
+
+    logger.info.tag('Command').data(generated.command).message(generated.explanation || '').appendDivider().print()
+
+    const result = await confirmAndExecute(generated.command, environmentInfo, getConfirmOptions(context, environmentInfo))
+    await recordHistory(config, userText, environmentInfo, result)
+    if (result.exitCode)
+      process.exit(result.exitCode)
+  }
+  catch (error) {
+    failAndExit(spinner, error)
+  }
+}
+
+/**
+ * `shellman ask <text...>`, the default command
+ * - Options must come before the text, everything after the first word is part of the request
+ */
+export function registerAskCommand(program: Command): void {
+  const ask = program
+    .command('ask', { isDefault: true })
+    .description('Generate a shell command from a natural-language request (default)')
+    .argument('[text...]', 'Describe the command you want in natural language')
+    .option('-t, --text <text>', 'Describe the command you want in natural language')
+    .option('-y, --yes', 'Run the generated command without asking for confirmation')
+    .option('--dry-run', 'Preview which files the command would create, modify or delete, it only runs when picked afterwards')
+    .option('-n, --candidates <count>', `Suggest up to ${MAX_CANDIDATES} alternatives to pick from`, '1')
+    .passThroughOptions()
+
+  addOutputOptions(addPromptOptions(addCommonOptions(ask))).action(async (positionalArgs: string[], options: Record<string, any>, command: Command) => {
+    const context = getRunContext(command)
+    if (context.isDebug) {
+      logger.info.tag('Parsed options').data(options).print()
+      logger.info.tag('Positional args').data(positionalArgs).print()
+    }
+
+    // Get text from either -t flag or positional args
+    const userText: string | undefined = options.text || (positionalArgs.length > 0 ? positionalArgs.join(' ') : undefined)
+
+    const count = Number(options.candidates)
+    if (!Number.isInteger(count) || count < 1 || count > MAX_CANDIDATES) {
+      logger.error.tag('Candidates').data(options.candidates).message(`Expected a whole number from 1 to ${MAX_CANDIDATES}`).print()
+      process.exit(1)
+    }
+    await runAsk(userText, count, context)
+  })
+}
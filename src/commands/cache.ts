@@ -0,0 +1,57 @@
+import type { Command } from 'commander'
+import { clearCache, getCacheStats } from '../cache'
+import { resolveConfig } from '../config'
+import { logger } from '../logger'
+import { DEFAULT_CONFIG } from '../types'
+
+// The TTL decides which entries count as expired, an invalid config falls back to the default
+function getCacheTtl(): number {
+  try {
+    return resolveConfig().config.CACHE_TTL
+  }
+  catch {
+    return DEFAULT_CONFIG.CACHE_TTL
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024)
+    return `${bytes} B`
+  if (bytes < 1024 * 1024)
+    return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * `shellman cache stats|clear`
+ */
+export function registerCacheCommand(program: Command): void {
+  const cache = program
+    .command('cache')
+    .description('Inspect or empty the cache of provider replies')
+
+  cache
+    .command('stats')
+    .description('Show how many replies are cached and how much space they use')
+    .action(() => {
+      const ttl = getCacheTtl()
+      const stats = getCacheStats(ttl)
+      logger.info.tag('Cache').data({
+        Directory: stats.directory,
+        Entries: stats.entries,
+        Expired: stats.expired,
+        Size: formatBytes(stats.bytes),
+        Oldest: stats.oldest || '-',
+        Newest: stats.newest || '-',
+      }).message(ttl > 0 ? `Replies are reused for ${ttl} seconds (CACHE_TTL)` : 'The cache is off, set CACHE_TTL to turn it on').appendDivider().print()
+    })
+
+  cache
+    .command('clear')
+    .description('Delete cached replies')
+    .option('--expired', 'Only delete replies older than CACHE_TTL')
+    .action((options: { expired?: boolean }) => {
+      const removed = clearCache(options.expired ? getCacheTtl() : undefined)
+      logger.info.tag('Cache').data(removed).message(`${removed === 1 ? 'Reply' : 'Replies'} removed`).print()
+    })
+}
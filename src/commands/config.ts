@@ -0,0 +1,249 @@
+import { spawn } from 'node:child_process'
+import * as process from 'node:process'
+import type { Command } from 'commander'
+import prompts from 'prompts'
+import { logger, maskSecret } from '../logger'
+import { configExists, getConfigPath, parseConfigValue, readConfig, resolveConfig, writeConfig } from '../config'
+import { isCredentialReference, parseCredentialReference, removeCredential, storeCredential } from '../credentials'
+import { getProvider, listProviderNames } from '../providers'
+import { ConfigError, validateConfigFields } from '../schema'
+import type { ConfigKey, ResolvedConfig, ShellManConfig } from '../types'
+import { CONFIG_KEYS, DEFAULT_CONFIG } from '../types'
+import { promptForSecret } from '../ui'
+import { registerProfileCommand, setProfileValue } from './profile'
+import { addCommonOptions, addConfigOptions, getConfigOverrides, getRunContext } from './shared'
+
+function requireConfigKey(key: string): ConfigKey {
+  const normalized = key.toUpperCase()
+  if (!(CONFIG_KEYS as readonly string[]).includes(normalized)) {
+    logger.error.tag('Config').data(CONFIG_KEYS).message(`Unknown config key "${key}"`).print()
+    process.exit(1)
+  }
+  return normalized as ConfigKey
+}
+
+function requireProvider(name: string): string {
+  if (!getProvider(name)) {
+    logger.error.tag('Config').data(listProviderNames()).message(`Unknown provider "${name}"`).print()
+    process.exit(1)
+  }
+  return name
+}
+
+// Save the key reference of a provider, a literal key is encrypted into the credential store first
+async function saveProviderKey(provider: string, value: string, nonInteractive = false): Promise<string> {
+  const reference = isCredentialReference(value) ? value : await storeCredential(provider, value, nonInteractive)
+  const current = configExists() ? readConfig(false) : null
+  const updated: ShellManConfig = { ...DEFAULT_CONFIG, ...current, API_KEYS: { ...current?.API_KEYS, [provider]: reference } }
+  if (!writeConfig(updated))
+    process.exit(1)
+  return reference
+}
+
+function openInEditor(filePath: string): Promise<number> {
+  const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi')
+  return new Promise((resolve, reject) => {
+    const child = spawn(editor, [filePath], { stdio: 'inherit', shell: true })
+    child.on('error', reject)
+    child.on('close', code => resolve(code ?? 1))
+  })
+}
+
+/**
+ * `shellman config get|set|key|profile|edit|reset|path`
+ */
+export function registerConfigCommand(program: Command): void {
+  const config = program
+    .command('config')
+    .description('Read and change the shell-man configuration')
+
+  addConfigOptions(
+    config
+      .command('get')
+      .description('Print the effective configuration, or a single value')
+      .argument('[key]', `One of ${CONFIG_KEYS.join(', ')}`)
+      .option('--explain', 'Show which layer each value came from'),
+  ).action((key: string | undefined, options: { explain?: boolean }, command: Command) => {
+    let resolved: ResolvedConfig
+    try {
+      resolved = resolveConfig(getConfigOverrides(command), command.optsWithGlobals().profile)
+    }
+    catch (error) {
+      if (!(error instanceof ConfigError))
+        throw error
+      logger.error.tag('Config').data('').message(error.message).print()
+      process.exit(1)
+    }
+    const { config: current, provenance, profile } = resolved
+    const keys = key ? [requireConfigKey(key)] : [...CONFIG_KEYS]
+
+    if (options.explain) {
+      if (profile)
+        logger.info.tag('Profile').data(profile.name).message(`${profile.source.layer}: ${profile.source.origin}`).print()
+      for (const configKey of keys) {
+        const source = provenance[configKey]
+        const value = configKey === 'API_KEY' ? maskSecret(current.API_KEY) : current[configKey]
+        logger.info.tag(configKey).data(value ?? '').message(source ? `${source.layer}: ${source.origin}` : 'unset').print()
+      }
+      return
+    }
+
+    if (!key) {
+      logger.info.tag('Config').data(current).message(getConfigPath()).appendDivider().print()
+      return
+    }
+
+    const value = current[keys[0]]
+    console.log(value === undefined ? '' : keys[0] === 'API_KEY' ? maskSecret(String(value)) : String(value))
+  })
+
+  config
+    .command('set')
+    .description('Change a single value in the global configuration')
+    .argument('<key>', `One of ${CONFIG_KEYS.join(', ')}`)
+    .argument('<value>', 'New value, an empty string clears optional values')
+    .option('--profile <name>', 'Change the value in a profile instead')
+    .action(async (key: string, value: string, options: { profile?: string }) => {
+      const configKey = requireConfigKey(key)
+      if (options.profile) {
+        await setProfileValue(options.profile, configKey, value)
+        return
+      }
+
+      // Keys are saved per provider, for the provider currently in the global config
+      if (configKey === 'API_KEY') {
+        const provider = (configExists() && readConfig(false)?.API_PROVIDER) || DEFAULT_CONFIG.API_PROVIDER
+        const reference = await saveProviderKey(provider, value)
+        logger.info.tag('Config').data(maskSecret(reference)).message(`API key for ${provider} updated`).print()
+        return
+      }
+
+      const parsed = parseConfigValue(configKey, value)
+      const errors = validateConfigFields({ [configKey]: parsed })
+      if (errors.length > 0) {
+        logger.error.tag('Config').data(value).message(errors[0].message).print()
+        process.exit(1)
+      }
+
+      // Other fields may be invalid, setting this one must still be possible so they can be fixed one by one
+      const current = configExists() ? readConfig(false) : null
+      const updated: ShellManConfig = { ...DEFAULT_CONFIG, ...current, [configKey]: parsed }
+
+      if (!writeConfig(updated))
+        process.exit(1)
+      logger.info.tag('Config').data(updated[configKey]).message(`${configKey} updated`).print()
+    })
+
+  const key = config
+    .command('key')
+    .description('Manage the API key of each provider')
+
+  // The provider is the argument, so the --provider and --model overrides of the other commands are left out
+  key
+    .command('set')
+    .description('Save the API key of a provider, encrypted unless a reference is given')
+    .argument('<provider>', `One of ${listProviderNames().join(', ')}`)
+    .argument('[reference]', 'env:VAR_NAME, cmd:<command> or the key itself, prompted for when omitted')
+    .option('--non-interactive', 'Fail instead of prompting for the key')
+    .action(async (provider: string, reference: string | undefined, options: { nonInteractive?: boolean }) => {
+      requireProvider(provider)
+      let value = reference
+      if (!value) {
+        if (options.nonInteractive) {
+          logger.error.tag('Config').data('').message('Pass the key or a reference in non-interactive mode').print()
+          process.exit(1)
+        }
+        value = await promptForSecret(`Enter your ${provider} API key:`)
+        if (!value)
+          return
+      }
+
+      const saved = await saveProviderKey(provider, value, options.nonInteractive)
+      logger.info.tag('Config').data(maskSecret(saved)).message(`API key for ${provider} saved`).print()
+    })
+
+  key
+    .command('list')
+    .description('List the providers with a saved key and where each key is read from')
+    .action(() => {
+      const keys = (configExists() && readConfig(false)?.API_KEYS) || {}
+      if (Object.keys(keys).length === 0) {
+        logger.info.tag('Config').data('').message('No API keys saved, add one with `shellman config key set <provider>`').print()
+        return
+      }
+      for (const [provider, reference] of Object.entries(keys)) {
+        const { backend } = parseCredentialReference(reference)
+        logger.info.tag(provider).data(maskSecret(reference)).message(backend === 'plain' ? 'plain text, run `shellman config key set` to encrypt it' : backend).print()
+      }
+    })
+
+  key
+    .command('remove')
+    .description('Forget the API key of a provider')
+    .argument('<provider>', `One of ${listProviderNames().join(', ')}`)
+    .action((provider: string) => {
+      const current = configExists() ? readConfig(false) : null
+      const reference = current?.API_KEYS?.[provider]
+      if (!current || !reference) {
+        logger.error.tag('Config').data(provider).message('No API key is saved for this provider').print()
+        process.exit(1)
+      }
+
+      const { [provider]: _removed, ...remaining } = current.API_KEYS as Record<string, string>
+      if (!writeConfig({ ...current, API_KEYS: remaining }))
+        process.exit(1)
+
+      const { backend, target } = parseCredentialReference(reference)
+      if (backend === 'store')
+        removeCredential(target)
+      logger.info.tag('Config').data(provider).message('API key removed').print()
+    })
+
+  registerProfileCommand(config)
+
+  config
+    .command('edit')
+    .description('Open the configuration file in $VISUAL or $EDITOR')
+    .action(async () => {
+      if (!configExists())
+        writeConfig({ ...DEFAULT_CONFIG })
+      const exitCode = await openInEditor(getConfigPath())
+      if (exitCode !== 0)
+        process.exit(exitCode)
+    })
+
+  addCommonOptions(
+    config
+      .command('reset')
+      .description('Replace the configuration with the defaults')
+      .option('-y, --yes', 'Reset without asking for confirmation'),
+  ).action(async (_options: unknown, command: Command) => {
+    const context = getRunContext(command)
+    if (!context.yes) {
+      if (context.nonInteractive) {
+        logger.error.tag('Config').data('').message('Pass --yes to reset the configuration in non-interactive mode').print()
+        process.exit(1)
+      }
+
+      const response = await prompts({
+        type: 'confirm',
+        name: 'reset',
+        message: `Reset ${getConfigPath()} to the defaults?`,
+        initial: false,
+      })
+      if (!response.reset)
+        return
+    }
+
+    if (!writeConfig({ ...DEFAULT_CONFIG }))
+      process.exit(1)
+    logger.info.tag('Config').data('').message(`Configuration reset to defaults`).print()
+  })
+
+  config
+    .command('path')
+    .description('Print the path of the configuration file')
+    .action(() => {
+      console.log(getConfigPath())
+    })
+}
@@ -0,0 +1,19 @@
+import * as process from 'node:process'
+import type { Command } from 'commander'
+import { displayDoctorChecks, runDoctorChecks } from '../doctor'
+import { getEnvironmentInfo } from '../environment'
+
+/**
+ * `shellman doctor`, exits non-zero when any check fails
+ */
+export function registerDoctorCommand(program: Command): void {
+  program
+    .command('doctor')
+    .description('Check the configuration and environment for problems')
+    .action(() => {
+      const checks = runDoctorChecks(getEnvironmentInfo())
+      displayDoctorChecks(checks)
+      if (checks.some(check => check.status === 'fail'))
+        process.exit(1)
+    })
+}
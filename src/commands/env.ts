@@ -0,0 +1,39 @@
+import type { Command } from 'commander'
+import { resolveConfig } from '../config'
+import { addProjectContext, describeEnvironment, displayEnvironmentInfo, gatherEnvironmentInfo } from '../environment'
+import { isMachineFormat, printResult } from '../output'
+import type { ShellManConfig } from '../types'
+import { DEFAULT_CONFIG } from '../types'
+import { addOutputOptions, getRunContext } from './shared'
+
+// The budget decides how much of the project is shown, an invalid config falls back to the defaults
+function getContextConfig(): ShellManConfig {
+  try {
+    return { ...resolveConfig().config, PROJECT_CONTEXT: true }
+  }
+  catch {
+    return { ...DEFAULT_CONFIG, PROJECT_CONTEXT: true }
+  }
+}
+
+/**
+ * `shellman env`
+ * - Plain output is the description the model receives, one line per fact
+ */
+export function registerEnvCommand(program: Command): void {
+  const env = program
+    .command('env')
+    .description('Print the detected environment information')
+    .option('--project', 'Include the project summary that --context sends to the model')
+
+  addOutputOptions(env).action(async (options: { project?: boolean }, command: Command) => {
+    const { format } = getRunContext(command)
+    let info = await gatherEnvironmentInfo()
+    if (options.project)
+      info = await addProjectContext(info, getContextConfig())
+    if (isMachineFormat(format))
+      printResult(format, info, describeEnvironment(info).join('\n'))
+    else
+      displayEnvironmentInfo(info, undefined, true)
+  })
+}
@@ -0,0 +1,57 @@
+import type { Command } from 'commander'
+import ora from 'ora'
+import { addProjectContext, gatherEnvironmentInfo } from '../environment'
+import { buildExplanationMessages, displayExplanation, explainCommand } from '../explain'
+import { buildExplanationOutput, isMachineFormat, printResult } from '../output'
+import type { RunContext } from './shared'
+import { addCommonOptions, addOutputOptions, addPromptOptions, failAndExit, getCompletionOptions, getRunContext, loadConfig, printPayload, withCancel } from './shared'
+
+// Ask the provider for a breakdown of the command and print it with risk highlights
+async function runExplain(command: string, context: RunContext) {
+  const startedAt = Date.now()
+  const spinner = ora('Starting shellman...').start()
+
+  try {
+    const config = await loadConfig(spinner, context)
+    const environmentInfo = await addProjectContext(await gatherEnvironmentInfo(spinner), config, spinner)
+
+    if (context.showPayload) {
+      printPayload(spinner, config, buildExplanationMessages(command, environmentInfo, config.PROMPT_TEMPLATES))
+      return
+    }
+
+    spinner.text = `Explaining command with ${config.API_PROVIDER} (${config.API_MODEL})...`
+    const requestStartedAt = Date.now()
+    const explanation = await withCancel(signal =>
+      explainCommand(command, environmentInfo, config, getCompletionOptions(spinner, context, 'summary', signal)))
+    const requestMs = Date.now() - requestStartedAt
+    spinner.succeed('Explanation ready')
+
+    // Plain output is the one-line summary, for editor hovers and status lines
+    if (isMachineFormat(context.format)) {
+      const timing = { totalMs: Date.now() - startedAt, requestMs }
+      printResult(context.format, buildExplanationOutput(command, explanation, environmentInfo, config, timing), explanation.summary)
+      return
+    }
+
+    displayExplanation(command, explanation, environmentInfo)
+  }
+  catch (error) {
+    failAndExit(spinner, error)
+  }
+}
+
+/**
+ * `shellman explain <command...>`
+ */
+export function registerExplainCommand(program: Command): void {
+  const explain = program
+    .command('explain')
+    .description('Explain what an existing shell command does')
+    .argument('<command...>', 'The command to explain, quote it to keep operators intact')
+    .passThroughOptions()
+
+  addOutputOptions(addPromptOptions(addCommonOptions(explain))).action(async (commandParts: string[], _options: unknown, command: Command) => {
+    await runExplain(commandParts.join(' '), getRunContext(command))
+  })
+}
@@ -0,0 +1,98 @@
+import * as process from 'node:process'
+import type { Command } from 'commander'
+import ora from 'ora'
+import { logger } from '../logger'
+import { addProjectContext, gatherEnvironmentInfo } from '../environment'
+import { confirmAndExecute } from '../executor'
+import type { FailedCommandOptions } from '../fix'
+import { LAST_COMMAND_VARIABLE, LAST_STATUS_VARIABLE, buildFixMessages, fixCommand, readFailedCommand } from '../fix'
+import { findFailedEntry } from '../history'
+import type { EnvironmentInfo, FailedCommand, ShellManConfig } from '../types'
+import { promptForErrorOutput } from '../ui'
+import type { RunContext } from './shared'
+import { addCommonOptions, addPromptOptions, failAndExit, getCompletionOptions, getConfirmOptions, getRunContext, loadConfig, printPayload, recordHistory, withCancel } from './shared'
+
+// Reuse the history entry of a failed command shellman ran itself, otherwise record the failure first
+async function recordFailure(config: ShellManConfig, failed: FailedCommand, info: EnvironmentInfo) {
+  if (!config.HISTORY_ENABLE)
+    return undefined
+
+  const existing = findFailedEntry(failed.command, failed.exitCode)
+  if (existing)
+    return existing
+
+  const lastLine = failed.stderr?.split('\n').filter(line => line.trim()).pop()
+  const prompt = lastLine?.trim() || `Failed${failed.exitCode === undefined ? '' : ` with exit code ${failed.exitCode}`}`
+  return recordHistory(config, prompt, info, { command: failed.command, executed: true, exitCode: failed.exitCode ?? 1 })
+}
+
+// The shell hooks only record the command and its exit code, so ask for the error it printed
+async function readErrorOutput(options: FailedCommandOptions, context: RunContext, spinner: ReturnType<typeof ora>): Promise<FailedCommand> {
+  const failed = readFailedCommand(options)
+  if (failed.stderr || context.nonInteractive)
+    return failed
+
+  spinner.stop()
+  logger.info.tag('Failed command').data(failed.command).message('Its error output was not recorded, pass --stderr or --stderr-file to skip this question').print()
+  const stderr = await promptForErrorOutput()
+  spinner.start()
+  return stderr ? readFailedCommand({ ...options, stderr }) : failed
+}
+
+// Ask the provider for a corrected command, then confirm and run it like a generated one
+async function runFix(options: FailedCommandOptions, context: RunContext) {
+  const spinner = ora('Starting shellman...').start()
+
+  try {
+    const failed = await readErrorOutput(options, context, spinner)
+    // The corrected command inherits this environment, the recorded failure stays with shellman
+    delete process.env[LAST_COMMAND_VARIABLE]
+    delete process.env[LAST_STATUS_VARIABLE]
+    const config = await loadConfig(spinner, context)
+    const environmentInfo = await addProjectContext(await gatherEnvironmentInfo(spinner), config, spinner)
+
+    if (context.showPayload) {
+      printPayload(spinner, config, buildFixMessages(failed, environmentInfo, config.PROMPT_TEMPLATES))
+      return
+    }
+
+    spinner.text = `Diagnosing command with ${config.API_PROVIDER} (${config.API_MODEL})...`
+    const fix = await withCancel(signal =>
+      fixCommand(failed, environmentInfo, config, getCompletionOptions(spinner, context, 'problem', signal)))
+    spinner.succeed('Fix ready')
+
+    const status = failed.exitCode === undefined ? 'Failed command' : `Failed with exit code ${failed.exitCode}`
+    logger.error.tag(status).data(failed.command).message(fix.problem).print()
+    logger.info.tag('Command').data(fix.command).message(fix.explanation || '').appendDivider().print()
+
+    const result = await confirmAndExecute(fix.command, environmentInfo, getConfirmOptions(context, environmentInfo))
+
+    // The failed attempt and its fix are stored as two entries, the fix pointing at the failure
+    const failure = await recordFailure(config, failed, environmentInfo)
+    await recordHistory(config, fix.problem || `Fix for ${failed.command}`, environmentInfo, result, { fixOf: failure?.id })
+    if (result.exitCode)
+      process.exit(result.exitCode)
+  }
+  catch (error) {
+    failAndExit(spinner, error)
+  }
+}
+
+/**
+ * `shellman fix`, corrects the last failed command
+ */
+export function registerFixCommand(program: Command): void {
+  const fix = program
+    .command('fix')
+    .description(`Diagnose a failed command and suggest a corrected one, by default the one in ${LAST_COMMAND_VARIABLE}`)
+    .option('-c, --command <command>', 'The command that failed')
+    .option('-e, --exit-code <code>', 'Exit code of the failed command')
+    .option('--stderr <text>', 'Error output of the failed command, asked for in interactive mode when missing')
+    .option('--stderr-file <path>', 'Read the error output of the failed command from a file')
+    .option('-y, --yes', 'Run the corrected command without asking for confirmation')
+    .option('--dry-run', 'Preview which files the corrected command would create, modify or delete, it only runs when picked afterwards')
+
+  addPromptOptions(addCommonOptions(fix)).action(async (options: FailedCommandOptions, command: Command) => {
+    await runFix(options, getRunContext(command))
+  })
+}
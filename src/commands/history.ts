@@ -0,0 +1,101 @@
+import * as process from 'node:process'
+import type { Command } from 'commander'
+import ora from 'ora'
+import { logger } from '../logger'
+import { gatherEnvironmentInfo } from '../environment'
+import { confirmAndExecute } from '../executor'
+import {
+  clearHistory,
+  displayHistoryEntries,
+  displayHistoryEntry,
+  getHistoryEntry,
+  readHistory,
+  searchHistory,
+} from '../history'
+import type { RunContext } from './shared'
+import { addCommonOptions, failAndExit, getRunContext, loadConfig, recordHistory } from './shared'
+
+function requireHistoryEntry(id: string) {
+  const entry = getHistoryEntry(id)
+  if (!entry) {
+    logger.error.tag('History').data(id).message('No history entry with this id').print()
+    process.exit(1)
+  }
+  return entry
+}
+
+// Run a command from history again through the normal confirm flow
+async function runRerun(id: string, context: RunContext) {
+  const entry = requireHistoryEntry(id)
+  const spinner = ora('Starting shellman...').start()
+
+  try {
+    const config = await loadConfig(spinner, context)
+    const environmentInfo = await gatherEnvironmentInfo(spinner)
+    spinner.succeed('Environment information gathered')
+
+    logger.info.tag('Command').data(entry.command).message(entry.prompt).appendDivider().print()
+    const result = await confirmAndExecute(entry.command, environmentInfo, {
+      interactive: !context.nonInteractive,
+      yes: context.yes,
+    })
+    await recordHistory(config, entry.prompt, environmentInfo, result)
+    if (result.exitCode)
+      process.exit(result.exitCode)
+  }
+  catch (error) {
+    failAndExit(spinner, error)
+  }
+}
+
+/**
+ * `shellman history list|search|show|rerun|clear`
+ */
+export function registerHistoryCommand(program: Command): void {
+  const history = program
+    .command('history')
+    .description('Browse, search and rerun previously generated commands')
+
+  history
+    .command('list')
+    .description('List the most recent history entries')
+    .option('-l, --limit <count>', 'Number of entries to show', '20')
+    .action((options: { limit: string }) => {
+      const limit = Number.parseInt(options.limit, 10) || 20
+      displayHistoryEntries(readHistory().reverse().slice(0, limit))
+    })
+
+  history
+    .command('search')
+    .description('Find entries whose prompt or command contains the query')
+    .argument('<query...>', 'Text to search for')
+    .action((query: string[]) => {
+      displayHistoryEntries(searchHistory(query.join(' ')))
+    })
+
+  history
+    .command('show')
+    .description('Show every detail of a history entry')
+    .argument('<id>', 'History entry id or unique prefix')
+    .action((id: string) => {
+      displayHistoryEntry(requireHistoryEntry(id))
+    })
+
+  addCommonOptions(
+    history
+      .command('rerun')
+      .description('Run a command from history again')
+      .argument('<id>', 'History entry id or unique prefix')
+      .option('-y, --yes', 'Run the command without asking for confirmation'),
+  ).action(async (id: string, _options: unknown, command: Command) => {
+    await runRerun(id, getRunContext(command))
+  })
+
+  history
+    .command('clear')
+    .description('Delete all history entries')
+    .action(async () => {
+      await clearHistory()
+      logger.info.tag('History').data('').message('History cleared').print()
+    })
+}
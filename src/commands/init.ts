@@ -0,0 +1,33 @@
+import * as process from 'node:process'
+import type { Command } from 'commander'
+import { getEnvironmentInfo } from '../environment'
+import type { IntegrationShell } from '../integration'
+import { DEFAULT_WIDGET_KEY, INTEGRATION_SHELLS, IntegrationError, detectIntegrationShell, getIntegrationScript, toIntegrationShell } from '../integration'
+import { logger } from '../logger'
+
+/**
+ * `shellman init [shell]`, prints the key binding widget to eval in a shell rc file
+ */
+export function registerInitCommand(program: Command): void {
+  program
+    .command('init')
+    .description('Print a key binding that turns the current command line into a generated command')
+    .argument('[shell]', `One of ${INTEGRATION_SHELLS.join(', ')}, defaults to the detected shell`)
+    .option('--key <key>', 'Key to bind, as ctrl-<letter>', DEFAULT_WIDGET_KEY)
+    .action((shellName: string | undefined, options: { key: string }) => {
+      try {
+        let shell: IntegrationShell | undefined
+        if (shellName) {
+          shell = toIntegrationShell(shellName)
+          if (!shell)
+            throw new IntegrationError(`No widget for ${shellName}, expected one of ${INTEGRATION_SHELLS.join(', ')}`)
+        }
+        // The script is printed on stdout on its own, so it can be passed straight to eval or source
+        process.stdout.write(getIntegrationScript(shell || detectIntegrationShell(getEnvironmentInfo()), options.key))
+      }
+      catch (error) {
+        logger.error.tag('Init').data(shellName || '').message((error as Error).message).print()
+        process.exit(1)
+      }
+    })
+}
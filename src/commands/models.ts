@@ -0,0 +1,60 @@
+import type { Command } from 'commander'
+import ora from 'ora'
+import { logger } from '../logger'
+import { getModelCatalog } from '../models'
+import { isMachineFormat, printResult } from '../output'
+import type { ModelCatalog } from '../types'
+import type { RunContext } from './shared'
+import { addCommonOptions, addOutputOptions, failAndExit, getRunContext, loadConfig, withCancel } from './shared'
+
+function describeSource(catalog: ModelCatalog): string {
+  switch (catalog.source) {
+    case 'provider':
+      return `Fetched from ${catalog.provider}`
+    case 'cache':
+      return `Fetched from ${catalog.provider} at ${catalog.fetchedAt}`
+    default:
+      return 'Built-in list'
+  }
+}
+
+// Print the models of the selected provider, asking the provider when the cached list is old
+async function runModels(refresh: boolean, context: RunContext) {
+  const spinner = ora('Starting shellman...').start()
+
+  try {
+    const config = await loadConfig(spinner, context)
+    spinner.start(`Listing ${config.API_PROVIDER} models...`)
+    const catalog = await withCancel(signal => getModelCatalog(config, { refresh, signal }))
+    if (catalog.error)
+      spinner.warn(`Could not list ${config.API_PROVIDER} models: ${catalog.error}`)
+    else
+      spinner.succeed(`${catalog.models.length} ${config.API_PROVIDER} models`)
+
+    if (isMachineFormat(context.format)) {
+      printResult(context.format, catalog, catalog.models.join('\n'))
+      return
+    }
+
+    for (const model of catalog.models)
+      logger.info.tag(catalog.provider).data(model).message(model === config.API_MODEL ? 'selected' : '').print()
+    logger.info.tag('Models').data(catalog.source).message(`${describeSource(catalog)}, any other model name can be set with \`shellman config set API_MODEL <name>\``).appendDivider().print()
+  }
+  catch (error) {
+    failAndExit(spinner, error)
+  }
+}
+
+/**
+ * `shellman models [--provider x]`
+ */
+export function registerModelsCommand(program: Command): void {
+  const models = program
+    .command('models')
+    .description('List the models of the configured provider, or of the one given with --provider')
+    .option('--refresh', 'Ask the provider again instead of using the list fetched within the last day')
+
+  addOutputOptions(addCommonOptions(models)).action(async (options: { refresh?: boolean }, command: Command) => {
+    await runModels(Boolean(options.refresh), getRunContext(command))
+  })
+}
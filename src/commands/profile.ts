@@ -0,0 +1,219 @@
+import * as path from 'node:path'
+import * as process from 'node:process'
+import type { Command } from 'commander'
+import { logger, maskSecret } from '../logger'
+import { configExists, parseConfigValue, promptForMissingConfig, readConfig, resolveConfig, writeConfig } from '../config'
+import { isCredentialReference, parseCredentialReference, removeCredential, storeCredential } from '../credentials'
+import { getKnownModels } from '../models'
+import { getProvider, listProviderNames } from '../providers'
+import { isValidProfileName, validateConfigFields } from '../schema'
+import type { ConfigKey, ProfileConfig, ShellManConfig } from '../types'
+import { DEFAULT_CONFIG } from '../types'
+
+interface AddProfileOptions {
+  provider?: string
+  model?: string
+  endpoint?: string
+  key?: string
+  nonInteractive?: boolean
+}
+
+// Read the global config without validation, so a broken profile can still be fixed or removed
+function readGlobalConfig(): ShellManConfig {
+  return { ...DEFAULT_CONFIG, ...(configExists() ? readConfig(false) : null) }
+}
+
+function requireProfile(current: ShellManConfig, name: string): ProfileConfig {
+  const profile = current.PROFILES?.[name]
+  if (!profile) {
+    logger.error.tag('Profile').data(Object.keys(current.PROFILES || {})).message(`Profile "${name}" does not exist`).print()
+    process.exit(1)
+  }
+  return profile
+}
+
+function saveProfile(current: ShellManConfig, name: string, profile: ProfileConfig): void {
+  const errors = validateConfigFields({ PROFILES: { [name]: profile } })
+  if (errors.length > 0) {
+    logger.error.tag('Profile').data(name).message(errors[0].message).print()
+    process.exit(1)
+  }
+  if (!writeConfig({ ...current, PROFILES: { ...current.PROFILES, [name]: profile } }))
+    process.exit(1)
+}
+
+// Keys given to a profile directly belong to it, a literal key is encrypted under the profile name
+async function toProfileKeyReference(name: string, value: string): Promise<string> {
+  return isCredentialReference(value) ? value : await storeCredential(`profile:${name}`, value)
+}
+
+/**
+ * Change a single value of an existing profile, used by `shellman config set --profile`
+ */
+export async function setProfileValue(name: string, key: ConfigKey, value: string): Promise<void> {
+  const current = readGlobalConfig()
+  const profile = { ...requireProfile(current, name) }
+
+  if (key === 'API_KEY')
+    profile.API_KEY = await toProfileKeyReference(name, value)
+  else
+    (profile as Partial<Record<ConfigKey, unknown>>)[key] = parseConfigValue(key, value)
+
+  saveProfile(current, name, profile)
+  logger.info.tag('Profile').data(key === 'API_KEY' ? maskSecret(profile.API_KEY as string) : profile[key]).message(`${key} updated in profile ${name}`).print()
+}
+
+// Build a profile from flags, or by prompting for the same values as the first run setup
+async function createProfile(name: string, current: ShellManConfig, options: AddProfileOptions): Promise<{ profile: ProfileConfig, apiKeys?: Record<string, string> }> {
+  if (options.provider || options.nonInteractive) {
+    const provider = options.provider && getProvider(options.provider)
+    if (!provider) {
+      logger.error.tag('Profile').data(listProviderNames()).message(options.provider ? `Unknown provider "${options.provider}"` : 'Pass --provider in non-interactive mode').print()
+      process.exit(1)
+    }
+    return {
+      profile: {
+        API_PROVIDER: provider.name,
+        API_MODEL: options.model || getKnownModels(provider.name, options.endpoint)[0],
+        API_CUSTOM_ENDPOINT: options.endpoint,
+      },
+    }
+  }
+
+  // Empty provider and model make the setup prompt ask for them instead of inheriting the global values
+  const prompted = await promptForMissingConfig({ ...current, API_KEY: '', API_PROVIDER: '', API_MODEL: '' }, { profile: name })
+  const profile: ProfileConfig = {
+    API_PROVIDER: prompted.API_PROVIDER,
+    API_MODEL: prompted.API_MODEL,
+    API_CUSTOM_ENDPOINT: prompted.API_CUSTOM_ENDPOINT,
+    HISTORY_ENABLE: prompted.HISTORY_ENABLE,
+  }
+
+  // A key entered during setup is the provider's key, shared with the global config and other profiles
+  const isNewKey = prompted.API_KEY && prompted.API_KEY !== current.API_KEYS?.[prompted.API_PROVIDER]
+  return { profile, apiKeys: isNewKey ? { ...current.API_KEYS, [prompted.API_PROVIDER]: prompted.API_KEY } : undefined }
+}
+
+/**
+ * `shellman config profile add|use|list|remove`
+ */
+export function registerProfileCommand(config: Command): void {
+  const profile = config
+    .command('profile')
+    .description('Manage named profiles of provider, model, key and endpoint')
+
+  profile
+    .command('add')
+    .description('Create a profile from flags, or interactively when no provider is given')
+    .argument('<name>', 'Profile name, letters, digits, dots, dashes and underscores')
+    .option('--provider <name>', 'API_PROVIDER of the profile')
+    .option('--model <name>', 'API_MODEL of the profile, any name the provider accepts, defaults to the first known model')
+    .option('--endpoint <url>', 'API_CUSTOM_ENDPOINT of the profile')
+    .option('--key <reference>', 'API key of the profile: env:VAR_NAME, cmd:<command> or the key itself')
+    .option('--non-interactive', 'Run in non-interactive mode')
+    .action(async (name: string, options: AddProfileOptions) => {
+      if (!isValidProfileName(name)) {
+        logger.error.tag('Profile').data(name).message('Use letters, digits, dots, dashes and underscores in profile names').print()
+        process.exit(1)
+      }
+
+      const current = readGlobalConfig()
+      if (current.PROFILES?.[name]) {
+        logger.error.tag('Profile').data(name).message('Profile already exists, change it with `shellman config set --profile`').print()
+        process.exit(1)
+      }
+
+      const { profile: created, apiKeys } = await createProfile(name, current, options)
+      if (options.key)
+        created.API_KEY = await toProfileKeyReference(name, options.key)
+
+      saveProfile(apiKeys ? { ...current, API_KEYS: apiKeys } : current, name, created)
+      logger.info.tag('Profile').data(created).message(`Profile ${name} created, select it with --profile ${name} or \`shellman config profile use ${name}\``).print()
+    })
+
+  profile
+    .command('use')
+    .description('Select the profile used by default, or in a directory with --dir')
+    .argument('[name]', 'Profile name, omit it to go back to the global configuration')
+    .option('--dir [path]', 'Only use the profile in this directory and below it, defaults to the current directory')
+    .action((name: string | undefined, options: { dir?: string | boolean }) => {
+      const current = readGlobalConfig()
+      if (name)
+        requireProfile(current, name)
+
+      let updated: ShellManConfig
+      let message: string
+      if (options.dir) {
+        const directory = path.resolve(options.dir === true ? process.cwd() : options.dir)
+        const { [directory]: _previous, ...mappings } = current.DIRECTORY_PROFILES || {}
+        updated = { ...current, DIRECTORY_PROFILES: name ? { ...mappings, [directory]: name } : mappings }
+        message = name ? `Profile ${name} is used in ${directory}` : `No profile is mapped to ${directory}`
+      }
+      else {
+        updated = { ...current, ACTIVE_PROFILE: name }
+        message = name ? `Profile ${name} is now the default` : 'The global configuration is now the default'
+      }
+
+      if (!writeConfig(updated))
+        process.exit(1)
+      logger.info.tag('Profile').data(name || '').message(message).print()
+    })
+
+  profile
+    .command('list')
+    .description('List profiles, marking the one selected in the current directory')
+    .action(() => {
+      const current = readGlobalConfig()
+      const profiles = Object.entries(current.PROFILES || {})
+      if (profiles.length === 0) {
+        logger.info.tag('Profile').data('').message('No profiles, add one with `shellman config profile add <name>`').print()
+        return
+      }
+
+      let selected: string | undefined
+      try {
+        selected = resolveConfig().profile?.name
+      }
+      catch {
+        // An invalid configuration still lists its profiles, just without a selection
+      }
+
+      for (const [name, values] of profiles) {
+        const directories = Object.entries(current.DIRECTORY_PROFILES || {})
+          .filter(([, profileName]) => profileName === name)
+          .map(([directory]) => directory)
+        const notes = [
+          name === selected ? 'selected' : '',
+          name === current.ACTIVE_PROFILE ? 'default' : '',
+          ...directories.map(directory => `used in ${directory}`),
+        ].filter(Boolean)
+        logger.info.tag(name).data(values).message(notes.join(', ')).print()
+      }
+    })
+
+  profile
+    .command('remove')
+    .description('Delete a profile and the directory mappings that use it')
+    .argument('<name>', 'Profile name')
+    .action((name: string) => {
+      const current = readGlobalConfig()
+      const removed = requireProfile(current, name)
+
+      const { [name]: _removed, ...profiles } = current.PROFILES || {}
+      const mappings = Object.fromEntries(Object.entries(current.DIRECTORY_PROFILES || {}).filter(([, profileName]) => profileName !== name))
+      const updated: ShellManConfig = {
+        ...current,
+        PROFILES: profiles,
+        DIRECTORY_PROFILES: mappings,
+        ACTIVE_PROFILE: current.ACTIVE_PROFILE === name ? undefined : current.ACTIVE_PROFILE,
+      }
+      if (!writeConfig(updated))
+        process.exit(1)
+
+      // Only the key stored for this profile is deleted, provider keys are shared
+      const reference = removed.API_KEY && parseCredentialReference(removed.API_KEY)
+      if (reference && reference.backend === 'store' && reference.target === `profile:${name}`)
+        removeCredential(reference.target)
+      logger.info.tag('Profile').data(name).message('Profile removed').print()
+    })
+}
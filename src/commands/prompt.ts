@@ -0,0 +1,156 @@
+import * as fs from 'node:fs'
+import type { Command } from 'commander'
+import ora from 'ora'
+import { resolveConfig } from '../config'
+import { addProjectContext, gatherEnvironmentInfo } from '../environment'
+import { buildExplanationMessages } from '../explain'
+import { buildFixMessages, readFailedCommand } from '../fix'
+import { buildGenerationMessages } from '../generator'
+import { logger } from '../logger'
+import { buildPromptRenderOutput, isMachineFormat, printResult } from '../output'
+import { buildPlanMessages } from '../plan'
+import { getPromptsDirs, listPromptVariables, loadPromptTemplates } from '../prompts'
+import { buildTranslationMessages, getTargetDialect, parseShellDialect } from '../translate'
+import type { ChatMessage, EnvironmentInfo, PromptName, PromptTemplates } from '../types'
+import { PROMPT_NAMES } from '../types'
+import type { RunContext } from './shared'
+import { addCommonOptions, addOutputOptions, addPromptOptions, failAndExit, getRunContext, printPayload } from './shared'
+
+interface RenderOptions {
+  candidates?: string
+  exitCode?: string
+  stderr?: string
+  to?: string
+  from?: string
+}
+
+function isPromptName(name: string): name is PromptName {
+  return (PROMPT_NAMES as readonly string[]).includes(name)
+}
+
+// The selected profile decides which profile templates apply, an invalid config falls back to --profile alone
+function getProfileName(context: RunContext): string | undefined {
+  try {
+    return resolveConfig(context.overrides, context.profile).profile?.name
+  }
+  catch {
+    return context.profile
+  }
+}
+
+// Build the messages exactly as the matching command would, the text is the request, command or script
+function buildMessages(
+  name: PromptName,
+  text: string,
+  options: RenderOptions,
+  info: EnvironmentInfo,
+  prompts: PromptTemplates,
+): ChatMessage[] {
+  switch (name) {
+    case 'generate':
+      return buildGenerationMessages(text, info, Number(options.candidates) || 1, prompts)
+    case 'explain':
+      return buildExplanationMessages(text, info, prompts)
+    case 'fix':
+      return buildFixMessages(readFailedCommand({ command: text, exitCode: options.exitCode, stderr: options.stderr }), info, prompts)
+    case 'plan':
+      return buildPlanMessages(text, info, prompts)
+    case 'translate':
+      return buildTranslationMessages(text, getTargetDialect(options.to, info), options.from ? parseShellDialect(options.from, '--from') : undefined, info, prompts)
+  }
+}
+
+// Assemble the messages for one prompt with the templates, rules and project context this run would use, without sending them
+async function runRender(name: string, text: string, options: RenderOptions, context: RunContext) {
+  const spinner = ora('Starting shellman...').start()
+
+  try {
+    if (!isPromptName(name))
+      throw new Error(`Unknown prompt "${name}", expected one of ${PROMPT_NAMES.join(', ')}`)
+
+    const resolved = resolveConfig(context.overrides, context.profile)
+    const prompts = loadPromptTemplates(resolved.profile?.name)
+    const config = { ...resolved.config, PROMPT_TEMPLATES: prompts }
+    const environmentInfo = await addProjectContext(await gatherEnvironmentInfo(spinner), config, spinner)
+    const messages = buildMessages(name, text, options, environmentInfo, prompts)
+
+    if (context.showPayload) {
+      printPayload(spinner, config, messages)
+      return
+    }
+    spinner.stop()
+
+    // Plain output is the messages one after another, to diff against a template
+    if (isMachineFormat(context.format)) {
+      printResult(context.format, buildPromptRenderOutput(name, prompts, messages), messages.map(message => message.content).join('\n\n'))
+      return
+    }
+
+    const template = prompts.templates[name]
+    logger.info.tag('Prompt').data(name).message(template ? `Template ${template.path} (${template.layer})` : 'Built-in prompt, no template found').print()
+    if (prompts.ruleFiles.length > 0)
+      logger.info.tag('Rules').data(prompts.rules).message(prompts.ruleFiles.join('\n')).print()
+    for (const message of messages)
+      logger.info.tag(message.role).data(message.content).appendDivider().print()
+    if (config.REDACT_PROMPTS)
+      logger.info.tag('Redaction').data('').message('Secrets, home paths, user and host names are replaced before sending, --show-payload shows the result').print()
+  }
+  catch (error) {
+    failAndExit(spinner, error)
+  }
+}
+
+// Show where templates are looked up, which ones are in use and the variables each can use
+function runList(context: RunContext) {
+  const profile = getProfileName(context)
+  const prompts = loadPromptTemplates(profile)
+
+  for (const { layer, directory } of getPromptsDirs(profile))
+    logger.info.tag(`Directory (${layer})`).data(directory).message(fs.existsSync(directory) ? '' : 'Not created').print()
+  logger.info.tag('Directories').data('').message('Templates are <name>.md, a project template wins over a profile one, which wins over the global one').appendDivider().print()
+
+  for (const name of PROMPT_NAMES) {
+    const template = prompts.templates[name]
+    logger.info.tag(name)
+      .data(template ? template.path : 'built-in')
+      .message(`Variables: ${listPromptVariables(name).join(', ')}`)
+      .print()
+  }
+
+  const rules = prompts.ruleFiles.length > 0 ? prompts.ruleFiles.join('\n') : 'Add one rule per line to rules.md in any of the directories'
+  logger.info.tag('Rules').data(prompts.rules.length).message(rules).appendDivider().print()
+}
+
+/**
+ * `shellman prompt render|list`
+ * - Options of render must come before the text, everything after the prompt name is part of it
+ */
+export function registerPromptCommand(program: Command): void {
+  const prompt = program
+    .command('prompt')
+    .description('Inspect the prompt templates and house rules that shape what is sent to the model')
+
+  const render = prompt
+    .command('render')
+    .description('Show the final assembled prompt for a request, without sending it')
+    .argument('<name>', `Prompt to render, one of ${PROMPT_NAMES.join(', ')}`)
+    .argument('<text...>', 'The request, or the command for explain, fix and translate')
+    .option('-n, --candidates <count>', 'Number of alternatives, for generate')
+    .option('-e, --exit-code <code>', 'Exit code of the failed command, for fix')
+    .option('--stderr <text>', 'Error output of the failed command, for fix')
+    .option('--to <shell>', 'Target shell, for translate')
+    .option('--from <shell>', 'Source shell, for translate')
+    .passThroughOptions()
+
+  addOutputOptions(addPromptOptions(addCommonOptions(render))).action(async (name: string, textParts: string[], options: RenderOptions, command: Command) => {
+    await runRender(name, textParts.join(' '), options, getRunContext(command))
+  })
+
+  const list = prompt
+    .command('list')
+    .description('List the prompts directories, the templates in use and the variables they can use')
+
+  addCommonOptions(list).action((_options: unknown, command: Command) => {
+    runList(getRunContext(command))
+  })
+}
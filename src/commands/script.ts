@@ -0,0 +1,197 @@
+import * as process from 'node:process'
+import type { Command } from 'commander'
+import ora from 'ora'
+import { assessCandidates } from '../candidates'
+import { addProjectContext, gatherEnvironmentInfo } from '../environment'
+import { executeChecked } from '../executor'
+import { logger } from '../logger'
+import { buildPlanOutput, isMachineFormat, printResult } from '../output'
+import { buildPlanMessages, displayPlan, generatePlan, getScriptExtension, renderPlanScript, savePlanScript } from '../plan'
+import { SafetyError, analyzeCommand, displayRiskAssessment } from '../safety'
+import type { AssessedStep, EnvironmentInfo, PlanAction, ShellManConfig, StepStatus } from '../types'
+import { promptForContinue, promptForEdit, promptForPlanAction, promptForScriptPath, promptForStepAction, promptForText } from '../ui'
+import type { RunContext } from './shared'
+import { addCommonOptions, addOutputOptions, addPromptOptions, failAndExit, getCompletionOptions, getRunContext, loadConfig, printPayload, recordHistory, withCancel } from './shared'
+
+interface ScriptOptions {
+  save?: string
+  force?: boolean
+  keepGoing?: boolean
+}
+
+// Ask before a step runs, returning the command to run or what to do instead
+async function confirmStep(
+  step: AssessedStep,
+  info: EnvironmentInfo,
+): Promise<{ command: string, risk: AssessedStep['risk'] } | 'skip' | 'stop'> {
+  let command = step.command
+  let risk = step.risk
+  displayRiskAssessment(risk)
+  while (true) {
+    const action = await promptForStepAction()
+    if (action !== 'edit')
+      return action === 'run' ? { command, risk } : action
+    command = await promptForEdit(command)
+    logger.info.tag('Command').data(command).appendDivider().print()
+    risk = analyzeCommand(command, info)
+    displayRiskAssessment(risk)
+  }
+}
+
+// Run the steps in order through the detected shell, stopping at the first failure unless told to go on
+async function runSteps(
+  text: string,
+  steps: AssessedStep[],
+  info: EnvironmentInfo,
+  config: ShellManConfig,
+  context: RunContext,
+  { stepwise, keepGoing }: { stepwise: boolean, keepGoing: boolean },
+): Promise<{ statuses: StepStatus[], exitCode: number }> {
+  const statuses: StepStatus[] = steps.map(() => 'pending')
+  let exitCode = 0
+
+  for (const [index, step] of steps.entries()) {
+    const label = `Step ${index + 1}/${steps.length}`
+    logger.info.tag(label).data(step.command).message(step.explanation || '').appendDivider().print()
+
+    const confirmed = stepwise ? await confirmStep(step, info) : { command: step.command, risk: step.risk }
+    if (confirmed === 'stop')
+      break
+    if (confirmed === 'skip') {
+      statuses[index] = 'skipped'
+      continue
+    }
+
+    const result = await executeChecked(confirmed.command, info, confirmed.risk, {
+      interactive: !context.nonInteractive,
+      yes: context.yes,
+    })
+    await recordHistory(config, `${text} (step ${index + 1} of ${steps.length})`, info, result)
+    if (!result.executed) {
+      statuses[index] = 'skipped'
+      continue
+    }
+    if (!result.exitCode) {
+      statuses[index] = 'done'
+      continue
+    }
+
+    statuses[index] = 'failed'
+    exitCode = result.exitCode
+    if (index === steps.length - 1)
+      break
+    // --yes means nobody is watching, so a failure stops the plan instead of asking
+    const goOn = keepGoing
+      || (!context.nonInteractive && !context.yes && await promptForContinue(`${label} failed with exit code ${exitCode}, continue with the remaining steps?`))
+    if (!goOn)
+      break
+  }
+  return { statuses, exitCode }
+}
+
+// Pick what to do with the plan, --yes runs every step and non-interactive mode runs nothing without it
+async function choosePlanAction(context: RunContext): Promise<PlanAction> {
+  if (context.yes)
+    return 'all'
+  if (context.nonInteractive) {
+    logger.info.tag('Run').data('').message('Not executed, pass --yes to run the plan in non-interactive mode').print()
+    return 'cancel'
+  }
+  return promptForPlanAction()
+}
+
+// Plan the steps for the user's text, show them as a checklist, then run them one at a time or save them as a script
+async function runScript(userText: string | undefined, options: ScriptOptions, context: RunContext) {
+  const startedAt = Date.now()
+  const spinner = ora('Starting shellman...').start()
+
+  try {
+    const config = await loadConfig(spinner, context)
+    const environmentInfo = await addProjectContext(await gatherEnvironmentInfo(spinner), config, spinner)
+    spinner.succeed('Environment information gathered')
+
+    if (!userText && (isMachineFormat(context.format) || context.showPayload))
+      throw new Error(`Pass the request as text when using ${context.showPayload ? '--show-payload' : `--format ${context.format}`}`)
+    if (!userText && context.nonInteractive)
+      throw new Error('Pass the request as text in non-interactive mode')
+    if (!userText)
+      userText = await promptForText()
+    if (!userText)
+      return
+
+    if (context.showPayload) {
+      printPayload(spinner, config, buildPlanMessages(userText, environmentInfo, config.PROMPT_TEMPLATES))
+      return
+    }
+
+    spinner.start(`Planning steps with ${config.API_PROVIDER} (${config.API_MODEL})...`)
+    const requestStartedAt = Date.now()
+    const plan = await withCancel(signal =>
+      generatePlan(userText!, environmentInfo, config, getCompletionOptions(spinner, context, 'summary', signal)))
+    const requestMs = Date.now() - requestStartedAt
+    spinner.succeed(`${plan.steps.length} ${plan.steps.length === 1 ? 'step' : 'steps'} planned`)
+
+    const steps = assessCandidates(plan.steps, environmentInfo)
+    const script = renderPlanScript(userText, { summary: plan.summary, steps }, environmentInfo)
+    const saved = options.save ? savePlanScript(options.save, script, environmentInfo, options.force) : undefined
+
+    // Machine formats print the plan for the caller, plain is the script itself
+    if (isMachineFormat(context.format)) {
+      const timing = { totalMs: Date.now() - startedAt, requestMs }
+      printResult(context.format, buildPlanOutput(userText, plan.summary, steps, script, environmentInfo, config, timing), script.trimEnd())
+      return
+    }
+
+    logger.info.tag('Plan').data(plan.summary || userText).appendDivider().print()
+    displayPlan(steps, [])
+    if (saved)
+      logger.info.tag('Saved').data(saved).message('Review the script before running it').print()
+
+    const action = await choosePlanAction(context)
+    if (action === 'cancel')
+      return
+    if (action === 'save') {
+      const filePath = saved ? undefined : await promptForScriptPath(`plan${getScriptExtension(environmentInfo)}`)
+      if (filePath)
+        logger.info.tag('Saved').data(savePlanScript(filePath, script, environmentInfo, options.force)).message('Review the script before running it').print()
+      return
+    }
+
+    // Without a prompt a high-risk step would stop the plan half way, so nothing runs at all
+    const highRisk = steps.find(step => step.risk.level === 'high')
+    if (context.nonInteractive && highRisk)
+      throw new SafetyError('Refusing to run a plan with a high-risk step in non-interactive mode', highRisk.risk)
+
+    const { statuses, exitCode } = await runSteps(userText, steps, environmentInfo, config, context, {
+      stepwise: action === 'step',
+      keepGoing: Boolean(options.keepGoing),
+    })
+    logger.info.tag('Plan').data(`${statuses.filter(status => status === 'done').length} of ${steps.length} steps done`).appendDivider().print()
+    displayPlan(steps, statuses)
+    if (exitCode)
+      process.exit(exitCode)
+  }
+  catch (error) {
+    failAndExit(spinner, error)
+  }
+}
+
+/**
+ * `shellman script <text...>`
+ * - Options must come before the text, everything after the first word is part of the request
+ */
+export function registerScriptCommand(program: Command): void {
+  const script = program
+    .command('script')
+    .description('Plan several commands for a multi-step request, then run them one at a time or save them as a script')
+    .argument('[text...]', 'Describe what you want done in natural language')
+    .option('-y, --yes', 'Run every step without asking, stopping at the first failure')
+    .option('-o, --save <file>', 'Save the plan as an executable script, the extension for the shell is added when missing')
+    .option('--force', 'Replace the file given to --save when it exists')
+    .option('--keep-going', 'Continue with the next step when one fails instead of stopping')
+    .passThroughOptions()
+
+  addOutputOptions(addPromptOptions(addCommonOptions(script))).action(async (textParts: string[], options: ScriptOptions, command: Command) => {
+    await runScript(textParts.length > 0 ? textParts.join(' ') : undefined, options, getRunContext(command))
+  })
+}
@@ -0,0 +1,299 @@
+import process from 'node:process'
+import type { Command } from 'commander'
+import type ora from 'ora'
+import { logger, redact, sendLogsToStderr } from '../logger'
+import { initConfig } from '../config'
+import { resolveCredential } from '../credentials'
+import type { CompletionOptions } from '../generator'
+import type { ConfirmOptions } from '../executor'
+import { CancelledError, readPartialJsonString } from '../generator'
+import { appendHistory } from '../history'
+import { buildPayloadOutput, isMachineFormat, isOutputFormat, printResult } from '../output'
+import { displayPreview, previewCommand } from '../preview'
+import { loadPromptTemplates } from '../prompts'
+import type { ChatMessage, EnvironmentInfo, ExecutionResult, HistoryEntry, OutputFormat, ResolvedConfig, ShellManConfig } from '../types'
+import { OUTPUT_FORMATS } from '../types'
+
+export interface RunContext {
+  isDebug: boolean
+  nonInteractive: boolean
+  yes: boolean
+  overrides: Partial<ShellManConfig>
+  profile?: string
+  // Show the reply in the spinner while it streams in
+  stream: boolean
+  // Reuse cached replies, --no-cache still stores the new reply
+  cache: boolean
+  format: OutputFormat
+  // Print the redacted request instead of sending it
+  showPayload: boolean
+  // Preview what a command would change before asking to run it, and never run it unasked
+  dryRun: boolean
+}
+
+/**
+ * Add the flags that override configuration values
+ */
+export function addConfigOptions(command: Command): Command {
+  return command
+    .option('--profile <name>', 'Use a named configuration profile for this run')
+    .option('--provider <name>', 'Override API_PROVIDER for this run')
+    .option('--model <name>', 'Override API_MODEL for this run')
+    .option('--endpoint <url>', 'Override API_CUSTOM_ENDPOINT for this run')
+    .option('--timeout <seconds>', 'Override REQUEST_TIMEOUT for this run')
+}
+
+/**
+ * Add the options every subcommand understands
+ */
+export function addCommonOptions(command: Command): Command {
+  return addConfigOptions(command)
+    .option('-d, --debug', 'Display debug information')
+    .option('--non-interactive', 'Run in non-interactive mode')
+    .option('--no-stream', 'Wait for the whole reply instead of streaming it')
+    .option('--no-cache', 'Ask the provider again instead of reusing a cached reply')
+}
+
+/**
+ * Add --format to commands whose result other programs consume
+ */
+export function addOutputOptions(command: Command): Command {
+  return command
+    .option('--format <format>', `Output format: ${OUTPUT_FORMATS.join(', ')}, json and plain only print the result on stdout`, 'pretty')
+}
+
+/**
+ * Add the flags that control what a prompt describes and show it before it is sent
+ */
+export function addPromptOptions(command: Command): Command {
+  return command
+    .option('--context', 'Describe the scripts, tooling and git state of the working directory to the model')
+    .option('--no-context', 'Leave the project out of the prompt, even when PROJECT_CONTEXT is on')
+    .option('--show-payload', 'Print the redacted messages that would be sent to the provider, without sending them')
+}
+
+/**
+ * Collect the configuration overrides given as flags
+ */
+export function getConfigOverrides(command: Command): Partial<ShellManConfig> {
+  const options = command.optsWithGlobals()
+  const overrides: Partial<ShellManConfig> = {}
+  if (options.provider)
+    overrides.API_PROVIDER = options.provider
+  if (options.model)
+    overrides.API_MODEL = options.model
+  if (options.endpoint)
+    overrides.API_CUSTOM_ENDPOINT = options.endpoint
+  if (options.timeout)
+    overrides.REQUEST_TIMEOUT = Number(options.timeout)
+  if (typeof options.context === 'boolean')
+    overrides.PROJECT_CONTEXT = options.context
+  return overrides
+}
+
+/**
+ * Read the common options of a command
+ * - Debug mode implies non-interactive mode
+ * - json and plain output imply non-interactive mode and move all logging to stderr
+ * - --show-payload does the same, stdout only carries the payload
+ */
+export function getRunContext(command: Command): RunContext {
+  const options = command.optsWithGlobals()
+  const format = options.format || 'pretty'
+  if (!isOutputFormat(format)) {
+    logger.error.tag('Format').data(format).message(`Expected one of ${OUTPUT_FORMATS.join(', ')}`).print()
+    process.exit(1)
+  }
+  const showPayload = Boolean(options.showPayload)
+  if (isMachineFormat(format) || showPayload)
+    sendLogsToStderr()
+
+  const isDebug = Boolean(options.debug)
+  return {
+    isDebug,
+    nonInteractive: isDebug || isMachineFormat(format) || showPayload || Boolean(options.nonInteractive),
+    yes: Boolean(options.yes),
+    overrides: getConfigOverrides(command),
+    profile: options.profile,
+    stream: options.stream !== false,
+    cache: options.cache !== false,
+    format,
+    showPayload,
+    dryRun: Boolean(options.dryRun),
+  }
+}
+
+/**
+ * Build the confirmation options for a generated command from the run context
+ * - --dry-run previews the command in the working directory before every prompt
+ */
+export function getConfirmOptions(context: RunContext, info: EnvironmentInfo): ConfirmOptions {
+  return {
+    interactive: !context.nonInteractive,
+    yes: context.yes,
+    dryRun: context.dryRun
+      ? async command => displayPreview(await previewCommand(command, info))
+      : undefined,
+  }
+}
+
+/**
+ * Load configuration, pausing the spinner while interactive prompts are shown
+ * - The API key reference is resolved here, so a passphrase prompt never races the spinner
+ * - Prompt templates and house rules for the selected profile and project are read here as well
+ */
+export async function loadConfig(
+  spinner: ReturnType<typeof ora>,
+  { isDebug, nonInteractive, overrides, profile }: RunContext,
+): Promise<ShellManConfig> {
+  let resolved: ResolvedConfig
+  if (nonInteractive) {
+    spinner.text = 'Loading configuration in non-interactive mode...'
+    resolved = await initConfig(true, overrides, profile)
+    resolved.config.API_KEY = await resolveApiKey(resolved.config, true)
+  }
+  else {
+    // In interactive mode, completely stop the spinner and show a clear message
+    spinner.stop()
+    // Initialize config in interactive mode
+    resolved = await initConfig(false, overrides, profile)
+    resolved.config.API_KEY = await resolveApiKey(resolved.config, false)
+
+    // Restart spinner after configuration is complete
+    spinner.start('Continuing with shellman...')
+  }
+
+  resolved.config.PROMPT_TEMPLATES = loadPromptTemplates(resolved.profile?.name)
+
+  if (isDebug)
+    logger.info.tag('Configuration loaded').data(resolved.config).message(formatProvenance(resolved)).appendDivider().print()
+  return resolved.config
+}
+
+function resolveApiKey(config: ShellManConfig, nonInteractive: boolean): Promise<string> {
+  return config.API_KEY ? resolveCredential(config.API_KEY, nonInteractive) : Promise.resolve('')
+}
+
+/**
+ * Run a provider request that Ctrl-C cancels through an AbortController
+ * - ora turns Ctrl-C into a SIGINT event while it spins, so one listener covers both cases
+ * - The process is not killed, so the spinner and prompts can restore the terminal first
+ */
+export async function withCancel<T>(run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController()
+  const cancel = () => controller.abort()
+  process.on('SIGINT', cancel)
+  try {
+    return await run(controller.signal)
+  }
+  finally {
+    process.off('SIGINT', cancel)
+  }
+}
+
+/**
+ * Build the request options that render a streamed reply and retries in the spinner
+ * - Replies are JSON, so the value of `field` is shown as it arrives rather than the raw tokens
+ */
+export function getCompletionOptions(
+  spinner: ReturnType<typeof ora>,
+  { stream, cache }: RunContext,
+  field: string,
+  signal: AbortSignal,
+): CompletionOptions {
+  const label = spinner.text
+  return {
+    signal,
+    refreshCache: !cache,
+    onToken: stream
+      ? (_token, reply) => {
+          const partial = readPartialJsonString(reply, field)?.replace(/\s+/g, ' ')
+          if (!partial)
+            return
+          // Keep the preview on one line so the spinner can redraw it in place, ora draws on stderr
+          const width = Math.max(20, (process.stderr.columns || 80) - label.length - 6)
+          spinner.text = `${label} ${partial.length > width ? `…${partial.slice(-width)}` : partial}`
+        }
+      : undefined,
+    onRetry: (error, attempt, delayMs) => {
+      spinner.text = `${label} status ${error.status}, retry ${attempt} in ${Math.ceil(delayMs / 1000)}s`
+    },
+  }
+}
+
+/**
+ * Print the messages a request would send as JSON on stdout, listing the replaced values on stderr
+ */
+export function printPayload(
+  spinner: ReturnType<typeof ora>,
+  config: ShellManConfig,
+  messages: ChatMessage[],
+): void {
+  spinner.stop()
+  const payload = buildPayloadOutput(config, messages)
+  printResult('json', payload, '')
+  const replaced = payload.redactions.map(redaction => `${redaction.placeholder}: ${redaction.label}`)
+  const summary = config.REDACT_PROMPTS
+    ? replaced.length > 0 ? replaced.join('\n') : 'Nothing needed replacing'
+    : 'REDACT_PROMPTS is off, the messages are sent as they are'
+  logger.info.tag('Redacted').data(replaced.length).message(summary).print()
+}
+
+/**
+ * Describe where each configuration value came from, one key per line
+ */
+export function formatProvenance({ provenance, profile }: ResolvedConfig): string {
+  const lines = Object.entries(provenance)
+    .map(([key, source]) => `${key}: ${source.layer} (${source.origin})`)
+  if (profile)
+    lines.unshift(`profile: ${profile.name} (${profile.source.origin})`)
+  return lines.join('\n')
+}
+
+/**
+ * Record a generated command in the history store when history is enabled
+ * - Returns the stored entry, or undefined when history is disabled or could not be written
+ */
+export async function recordHistory(
+  config: ShellManConfig,
+  prompt: string,
+  info: EnvironmentInfo,
+  result: ExecutionResult,
+  links: Pick<HistoryEntry, 'fixOf'> = {},
+): Promise<HistoryEntry | undefined> {
+  if (!config.HISTORY_ENABLE)
+    return undefined
+
+  try {
+    return await appendHistory({
+      prompt,
+      command: result.command,
+      provider: config.API_PROVIDER,
+      model: config.API_MODEL,
+      cwd: process.cwd(),
+      shell: info.shellName,
+      executed: result.executed,
+      exitCode: result.exitCode,
+      ...links,
+    })
+  }
+  catch (error) {
+    logger.error.tag('History').data(error).message('Failed to record command history').print()
+    return undefined
+  }
+}
+
+/**
+ * Mark the spinner as failed with the error message and exit
+ */
+export function failAndExit(spinner: ReturnType<typeof ora>, error: unknown): never {
+  if (error instanceof CancelledError) {
+    spinner.warn('Cancelled')
+    process.exit(130)
+  }
+
+  spinner.fail(
+    `Error: ${redact(error instanceof Error ? error.message : String(error))}`,
+  )
+  process.exit(1)
+}
@@ -0,0 +1,90 @@
+import * as fs from 'node:fs'
+import type { Command } from 'commander'
+import ora from 'ora'
+import { addProjectContext, gatherEnvironmentInfo } from '../environment'
+import { buildTranslationOutput, isMachineFormat, printResult } from '../output'
+import { buildTranslationMessages, displayTranslation, getTargetDialect, parseShellDialect, translateCommand } from '../translate'
+import { SHELL_DIALECTS } from '../types'
+import type { RunContext } from './shared'
+import { addCommonOptions, addOutputOptions, addPromptOptions, failAndExit, getCompletionOptions, getRunContext, loadConfig, printPayload, withCancel } from './shared'
+
+interface TranslateOptions {
+  to?: string
+  from?: string
+  file?: string
+}
+
+function readSource(commandParts: string[], options: TranslateOptions): string {
+  if (options.file && commandParts.length > 0)
+    throw new Error('Pass either a command or --file, not both')
+  if (!options.file)
+    return commandParts.join(' ')
+  try {
+    return fs.readFileSync(options.file, 'utf-8').trimEnd()
+  }
+  catch (error) {
+    throw new Error(`Could not read ${options.file}: ${(error as Error).message}`)
+  }
+}
+
+// Ask the provider to rewrite the command for the target shell and print it with notes on what does not carry over
+async function runTranslate(commandParts: string[], options: TranslateOptions, context: RunContext) {
+  const startedAt = Date.now()
+  const spinner = ora('Starting shellman...').start()
+
+  try {
+    const source = readSource(commandParts, options)
+    if (!source.trim())
+      throw new Error('Pass the command to translate, or --file with a short script')
+    const from = options.from ? parseShellDialect(options.from, '--from') : undefined
+
+    const config = await loadConfig(spinner, context)
+    const environmentInfo = await addProjectContext(await gatherEnvironmentInfo(spinner), config, spinner)
+    const to = getTargetDialect(options.to, environmentInfo)
+    if (from === to)
+      throw new Error(`The command is already written for ${to}, pass --to with another shell`)
+
+    if (context.showPayload) {
+      printPayload(spinner, config, buildTranslationMessages(source, to, from, environmentInfo, config.PROMPT_TEMPLATES))
+      return
+    }
+
+    spinner.text = `Translating to ${to} with ${config.API_PROVIDER} (${config.API_MODEL})...`
+    const requestStartedAt = Date.now()
+    const translation = await withCancel(signal =>
+      translateCommand(source, to, from, environmentInfo, config, getCompletionOptions(spinner, context, 'command', signal)))
+    const requestMs = Date.now() - requestStartedAt
+    spinner.succeed('Translation ready')
+
+    // Plain output is the translated command alone, ready to paste or pipe
+    if (isMachineFormat(context.format)) {
+      const timing = { totalMs: Date.now() - startedAt, requestMs }
+      printResult(context.format, buildTranslationOutput(source, translation, to, environmentInfo, config, timing), translation.command)
+      return
+    }
+
+    displayTranslation(translation, to, environmentInfo)
+  }
+  catch (error) {
+    failAndExit(spinner, error)
+  }
+}
+
+/**
+ * `shellman translate <command...>`
+ * - Options must come before the command, everything after its first word is part of it
+ */
+export function registerTranslateCommand(program: Command): void {
+  const translate = program
+    .command('translate')
+    .description('Rewrite a command or short script for another shell, noting what does not map cleanly')
+    .argument('[command...]', 'The command to translate, quote it to keep operators intact')
+    .option('--to <shell>', `Target shell, one of ${SHELL_DIALECTS.join(', ')}, defaults to the detected shell`)
+    .option('--from <shell>', 'Source shell, recognized from the command when not given')
+    .option('-f, --file <path>', 'Translate the script in a file instead')
+    .passThroughOptions()
+
+  addOutputOptions(addPromptOptions(addCommonOptions(translate))).action(async (commandParts: string[], options: TranslateOptions, command: Command) => {
+    await runTranslate(commandParts, options, getRunContext(command))
+  })
+}
@@ -0,0 +1,203 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import * as process from 'node:process'
+import type { Mock } from 'bun:test'
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test'
+import { CONFIG_VERSION, ConfigError } from './schema'
+import { findDirectoryProfile, parseConfigValue, resolveConfig } from './config'
+
+let root: string
+let home: string
+let project: string
+let homedir: Mock<typeof os.homedir>
+const originalCwd = process.cwd()
+const originalEnv = { ...process.env }
+
+// Leave only the SHELLMAN_* variables a test sets, put back the ones it started with when done
+function resetShellmanEnv(values: Record<string, string | undefined> = {}) {
+  for (const variable of Object.keys(process.env)) {
+    if (variable.startsWith('SHELLMAN_'))
+      delete process.env[variable]
+  }
+  for (const [variable, value] of Object.entries(values)) {
+    if (variable.startsWith('SHELLMAN_'))
+      process.env[variable] = value
+  }
+}
+
+function catchError(run: () => unknown): unknown {
+  try {
+    run()
+  }
+  catch (error) {
+    return error
+  }
+  return undefined
+}
+
+function writeGlobal(values: Record<string, unknown>) {
+  fs.mkdirSync(path.join(home, '.shell-man'), { recursive: true })
+  fs.writeFileSync(path.join(home, '.shell-man', 'config.json'), JSON.stringify({ configVersion: CONFIG_VERSION, ...values }))
+}
+
+function writeProject(values: Record<string, unknown>) {
+  fs.writeFileSync(path.join(project, '.shellmanrc'), JSON.stringify(values))
+}
+
+beforeEach(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'shellman-config-')))
+  home = path.join(root, 'home')
+  project = path.join(root, 'project')
+  fs.mkdirSync(path.join(project, 'src'), { recursive: true })
+  fs.mkdirSync(home)
+  homedir = spyOn(os, 'homedir').mockReturnValue(home)
+  process.chdir(path.join(project, 'src'))
+  resetShellmanEnv()
+})
+
+afterEach(() => {
+  process.chdir(originalCwd)
+  homedir.mockRestore()
+  resetShellmanEnv(originalEnv)
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('resolveConfig', () => {
+  it('uses the defaults without any config', () => {
+    const { config, provenance, profile } = resolveConfig()
+
+    expect(config.API_PROVIDER).toBe('openai')
+    expect(config.REDACT_PROMPTS).toBe(true)
+    expect(provenance.API_MODEL).toEqual({ layer: 'default', origin: 'defaults' })
+    expect(profile).toBeUndefined()
+  })
+
+  it('layers global, profile, project, environment and flags in that order', () => {
+    writeGlobal({
+      API_MODEL: 'global-model',
+      REQUEST_TIMEOUT: 10,
+      REQUEST_RETRIES: 1,
+      CACHE_TTL: 5,
+      CONTEXT_TOKEN_BUDGET: 100,
+      PROFILES: { work: { REQUEST_TIMEOUT: 20, REQUEST_RETRIES: 3, CACHE_TTL: 6, CONTEXT_TOKEN_BUDGET: 200 } },
+      ACTIVE_PROFILE: 'work',
+    })
+    writeProject({ CACHE_TTL: 7, CONTEXT_TOKEN_BUDGET: 300, REQUEST_RETRIES: 4 })
+    process.env.SHELLMAN_REQUEST_RETRIES = '5'
+    process.env.SHELLMAN_CONTEXT_TOKEN_BUDGET = '400'
+
+    const { config, provenance, profile } = resolveConfig({ CONTEXT_TOKEN_BUDGET: 500 })
+
+    expect(config.API_MODEL).toBe('global-model')
+    expect(config.REQUEST_TIMEOUT).toBe(20)
+    expect(config.CACHE_TTL).toBe(7)
+    expect(config.REQUEST_RETRIES).toBe(5)
+    expect(config.CONTEXT_TOKEN_BUDGET).toBe(500)
+    expect(provenance.API_MODEL?.layer).toBe('global')
+    expect(provenance.REQUEST_TIMEOUT?.layer).toBe('profile')
+    expect(provenance.CACHE_TTL).toEqual({ layer: 'project', origin: path.join(project, '.shellmanrc') })
+    expect(provenance.REQUEST_RETRIES).toEqual({ layer: 'env', origin: 'SHELLMAN_REQUEST_RETRIES' })
+    expect(provenance.CONTEXT_TOKEN_BUDGET?.layer).toBe('flag')
+    expect(profile?.name).toBe('work')
+  })
+
+  it('ignores keys, the provider, the endpoint and REDACT_PROMPTS in a project file', () => {
+    writeGlobal({ API_PROVIDER: 'anthropic', API_MODEL: 'claude-3-5-haiku-latest' })
+    writeProject({
+      API_KEY: 'sk-project',
+      API_KEYS: { openai: 'env:PROJECT_KEY' },
+      API_PROVIDER: 'openai',
+      API_CUSTOM_ENDPOINT: 'https://collector.example.com/v1',
+      REDACT_PROMPTS: false,
+      API_MODEL: 'claude-3-5-sonnet-latest',
+    })
+
+    const { config, provenance } = resolveConfig()
+
+    expect(config.API_PROVIDER).toBe('anthropic')
+    expect(config.API_CUSTOM_ENDPOINT).toBeUndefined()
+    expect(config.REDACT_PROMPTS).toBe(true)
+    expect(config.API_KEY).toBe('')
+    expect(config.API_MODEL).toBe('claude-3-5-sonnet-latest')
+    expect(provenance.API_MODEL?.layer).toBe('project')
+  })
+
+  it('picks the profile from the flag, then SHELLMAN_PROFILE, then the directory, then ACTIVE_PROFILE', () => {
+    writeGlobal({
+      PROFILES: { a: { API_MODEL: 'model-a' }, b: { API_MODEL: 'model-b' }, c: { API_MODEL: 'model-c' }, d: { API_MODEL: 'model-d' } },
+      DIRECTORY_PROFILES: { [project]: 'c' },
+      ACTIVE_PROFILE: 'd',
+    })
+
+    expect(resolveConfig().config.API_MODEL).toBe('model-c')
+    process.env.SHELLMAN_PROFILE = 'b'
+    expect(resolveConfig().profile).toEqual({ name: 'b', source: { layer: 'env', origin: 'SHELLMAN_PROFILE' } })
+    expect(resolveConfig({}, 'a').config.API_MODEL).toBe('model-a')
+    process.chdir(root)
+    delete process.env.SHELLMAN_PROFILE
+    expect(resolveConfig().config.API_MODEL).toBe('model-d')
+  })
+
+  it('uses the key reference saved for the selected provider', () => {
+    writeGlobal({ API_PROVIDER: 'anthropic', API_MODEL: 'claude-3-5-haiku-latest', API_KEYS: { openai: 'env:OPENAI', anthropic: 'store:anthropic' } })
+
+    const { config, provenance } = resolveConfig()
+
+    expect(config.API_KEY).toBe('store:anthropic')
+    expect(provenance.API_KEY?.origin).toContain('API_KEYS.anthropic')
+    process.env.SHELLMAN_API_KEY = 'sk-env'
+    expect(resolveConfig().config.API_KEY).toBe('sk-env')
+  })
+
+  it('migrates a legacy global file while reading it', () => {
+    fs.mkdirSync(path.join(home, '.shell-man'))
+    fs.writeFileSync(path.join(home, '.shell-man', 'config.json'), JSON.stringify({ source: 'init', HISTORY_ENABLE: 'false', API_KEY: 'env:OPENAI' }))
+
+    const { config } = resolveConfig()
+
+    expect(config.HISTORY_ENABLE).toBe(false)
+    expect(config.API_KEY).toBe('env:OPENAI')
+  })
+
+  it('raises every invalid field of the layers with where it came from', () => {
+    writeGlobal({ PROFILES: { work: {} }, ACTIVE_PROFILE: 'missing' })
+    process.env.SHELLMAN_API_PROVIDER = 'nope'
+
+    const error = catchError(() => resolveConfig({ API_CUSTOM_ENDPOINT: 'not a url' }))
+
+    expect(error).toBeInstanceOf(ConfigError)
+    const errors = (error as ConfigError).errors
+    expect(errors.map(entry => entry.field)).toEqual(['profile', 'API_PROVIDER', 'API_CUSTOM_ENDPOINT', 'ACTIVE_PROFILE'])
+    expect(errors[0].origin).toBe(`${path.join(home, '.shell-man', 'config.json')} (ACTIVE_PROFILE)`)
+    expect(errors[1].origin).toBe('SHELLMAN_API_PROVIDER')
+    expect(errors[2].origin).toBe('--endpoint')
+  })
+
+  it('rejects an invalid global file instead of falling back to defaults', () => {
+    writeGlobal({ REQUEST_TIMEOUT: -1 })
+
+    const error = catchError(() => resolveConfig())
+
+    expect(error).toBeInstanceOf(ConfigError)
+    expect((error as ConfigError).errors.map(entry => entry.field)).toEqual(['REQUEST_TIMEOUT'])
+  })
+})
+
+describe('parseConfigValue', () => {
+  it('converts command line strings to typed values', () => {
+    expect(parseConfigValue('HISTORY_ENABLE', 'false')).toBe(false)
+    expect(parseConfigValue('REQUEST_TIMEOUT', '30')).toBe(30)
+    expect(parseConfigValue('API_MODEL', 'gpt-4o')).toBe('gpt-4o')
+  })
+})
+
+describe('findDirectoryProfile', () => {
+  it('picks the nearest mapped parent', () => {
+    const profiles = { '/srv': 'outer', '/srv/app': 'inner' }
+
+    expect(findDirectoryProfile(profiles, '/srv/app/src')).toEqual({ directory: '/srv/app', name: 'inner' })
+    expect(findDirectoryProfile(profiles, '/srv/application')).toEqual({ directory: '/srv', name: 'outer' })
+    expect(findDirectoryProfile(profiles, '/home')).toBeUndefined()
+  })
+})
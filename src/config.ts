@@ -1,10 +1,47 @@
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 import * as os from 'node:os'
+import * as process from 'node:process'
 import prompts from 'prompts'
-import { logger } from '@shermant/logger'
-import type { ShellManConfig } from './types'
-import { API_PROVIDERS, DEFAULT_CONFIG, PROVIDER_MODELS } from './types'
+import { logger } from './logger'
+import type { ConfigKey, ConfigProvenance, ConfigSource, ProfileConfig, ResolvedConfig, ShellManConfig } from './types'
+import { CONFIG_KEYS, DEFAULT_CONFIG } from './types'
+import { getProvider, listProviderNames } from './providers'
+import { storeCredential } from './credentials'
+import { getKnownModels } from './models'
+import { CONFIG_VERSION, ConfigError, ConfigValidationError, migrateConfig, validateConfigFields, validateResolvedConfig } from './schema'
+
+// Project-level config file, looked up from the working directory upwards
+const PROJECT_CONFIG_FILE = '.shellmanrc'
+// Settings a project file cannot change, they decide where requests go and what they reveal
+const PROJECT_IGNORED_KEYS = ['API_PROVIDER', 'API_CUSTOM_ENDPOINT', 'REDACT_PROMPTS'] as const
+
+// Environment variables for each key, the first one that is set wins
+const ENV_VARIABLES: Record<ConfigKey, string[]> = {
+  API_KEY: ['SHELLMAN_API_KEY'],
+  API_PROVIDER: ['SHELLMAN_API_PROVIDER', 'SHELLMAN_PROVIDER'],
+  API_MODEL: ['SHELLMAN_API_MODEL', 'SHELLMAN_MODEL'],
+  API_CUSTOM_ENDPOINT: ['SHELLMAN_API_CUSTOM_ENDPOINT', 'SHELLMAN_ENDPOINT'],
+  HISTORY_ENABLE: ['SHELLMAN_HISTORY_ENABLE'],
+  REQUEST_TIMEOUT: ['SHELLMAN_REQUEST_TIMEOUT'],
+  REQUEST_RETRIES: ['SHELLMAN_REQUEST_RETRIES'],
+  CACHE_TTL: ['SHELLMAN_CACHE_TTL'],
+  PROJECT_CONTEXT: ['SHELLMAN_PROJECT_CONTEXT'],
+  CONTEXT_TOKEN_BUDGET: ['SHELLMAN_CONTEXT_TOKEN_BUDGET'],
+  REDACT_PROMPTS: ['SHELLMAN_REDACT_PROMPTS'],
+}
+
+// Environment variable that selects a profile, between the --profile flag and directory mappings
+const PROFILE_VARIABLE = 'SHELLMAN_PROFILE'
+
+// CLI flags that override config keys, used to label their provenance
+const FLAG_NAMES: Partial<Record<ConfigKey, string>> = {
+  API_PROVIDER: '--provider',
+  API_MODEL: '--model',
+  API_CUSTOM_ENDPOINT: '--endpoint',
+  REQUEST_TIMEOUT: '--timeout',
+  PROJECT_CONTEXT: '--context',
+}
 
 /**
  * Get the path to the shell-man config directory
@@ -39,28 +76,70 @@ export function ensureConfigDir(): void {
 }
 
 /**
- * Read config from file
+ * Move a config file that cannot be parsed aside so it is never silently overwritten
  */
-export function readConfig(): ShellManConfig | null {
-  const configPath = getConfigPath()
+function backupCorruptConfig(filePath: string): string | undefined {
+  const backupPath = `${filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`
   try {
-    const configData = fs.readFileSync(configPath, 'utf-8')
-    return JSON.parse(configData) as ShellManConfig
+    fs.copyFileSync(filePath, backupPath)
+    return backupPath
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * Read, migrate and validate a config file
+ * - Returns null when the file cannot be parsed, after backing up the global config
+ * - Throws ConfigError when fields have the wrong type or are unknown
+ */
+function loadConfigFile(filePath: string, backupOnCorrupt: boolean, validate = true): Partial<ShellManConfig> | null {
+  let raw: unknown
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
   }
   catch (error) {
-    logger.error.tag('Config Read').data(error).message('Error reading configuration file').appendDivider().print()
+    const backupPath = backupOnCorrupt && (error instanceof SyntaxError) ? backupCorruptConfig(filePath) : undefined
+    logger.error.tag('Config Read').data(error).message(backupPath
+      ? `Could not parse ${filePath}, a copy was kept at ${backupPath}`
+      : `Error reading configuration file ${filePath}`).appendDivider().print()
     return null
   }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw))
+    throw new ConfigError([new ConfigValidationError('(root)', 'expected a JSON object', filePath)])
+
+  const { config, notes } = migrateConfig(raw as Record<string, any>)
+  for (const note of notes)
+    logger.error.tag('Config').data(filePath).message(note).print()
+  const errors = validate ? validateConfigFields(config, filePath) : []
+  if (errors.length > 0)
+    throw new ConfigError(errors)
+
+  return config as Partial<ShellManConfig>
+}
+
+/**
+ * Read config from file
+ * - Pass validate = false to load a file with invalid fields so they can be fixed
+ */
+export function readConfig(validate = true): ShellManConfig | null {
+  return loadConfigFile(getConfigPath(), true, validate) as ShellManConfig | null
 }
 
 /**
  * Write config to file
+ * - The resolved API_KEY is dropped, keys are saved as references in API_KEYS, prompt templates stay in their files
+ * - The file is only readable by the current user since it may still hold legacy plaintext keys
  */
 export function writeConfig(config: ShellManConfig): boolean {
   ensureConfigDir()
   const configPath = getConfigPath()
+  const { API_KEY: _apiKey, PROMPT_TEMPLATES: _promptTemplates, ...stored } = config
   try {
-    fs.writeFileSync(configPath, JSON.stringify(config, null, 2), 'utf-8')
+    fs.writeFileSync(configPath, JSON.stringify({ ...stored, configVersion: CONFIG_VERSION }, null, 2), { encoding: 'utf-8', mode: 0o600 })
+    fs.chmodSync(configPath, 0o600)
     return true
   }
   catch (error) {
@@ -69,13 +148,21 @@ export function writeConfig(config: ShellManConfig): boolean {
   }
 }
 
+/**
+ * Check whether the provider needs an API key, unknown providers are assumed to
+ */
+export function requiresApiKey(providerName: string | undefined): boolean {
+  return !(providerName && getProvider(providerName)?.apiKeyOptional)
+}
+
 /**
  * Validate config and return missing required fields
+ * - API_KEY is only required by providers that need one
  */
 export function validateConfig(config: Partial<ShellManConfig>): string[] {
   const missingFields: string[] = []
 
-  if (!config.API_KEY)
+  if (!config.API_KEY && requiresApiKey(config.API_PROVIDER))
     missingFields.push('API_KEY')
   if (!config.API_PROVIDER)
     missingFields.push('API_PROVIDER')
@@ -88,24 +175,247 @@ export function validateConfig(config: Partial<ShellManConfig>): string[] {
 }
 
 /**
- * Prompt for API key
+ * Find the nearest project config file by walking up from a directory
  */
-async function promptForApiKey(): Promise<string> {
-  logger.info.tag('Config Setup').data('').message('Configuration setup has started').appendDivider().print()
-  logger.info.tag('API Key').data('').message('API Key is required for authentication').appendDivider().print()
+export function findProjectConfigPath(startDir: string = process.cwd()): string | undefined {
+  let current = path.resolve(startDir)
+  while (true) {
+    const candidate = path.join(current, PROJECT_CONFIG_FILE)
+    if (fs.existsSync(candidate))
+      return candidate
+    const parent = path.dirname(current)
+    if (parent === current)
+      return undefined
+    current = parent
+  }
+}
+
+/**
+ * Find the profile mapped to a directory or its nearest mapped parent
+ */
+export function findDirectoryProfile(
+  directoryProfiles: Record<string, string> = {},
+  startDir: string = process.cwd(),
+): { directory: string, name: string } | undefined {
+  const current = path.resolve(startDir)
+  const matches = Object.keys(directoryProfiles)
+    .filter(directory => current === directory || current.startsWith(`${directory}${path.sep}`))
+    .sort((a, b) => b.length - a.length)
+  return matches[0] ? { directory: matches[0], name: directoryProfiles[matches[0]] } : undefined
+}
+
+// Pick the profile from the flag, SHELLMAN_PROFILE, the nearest mapped directory or ACTIVE_PROFILE, in that order
+function selectProfile(
+  globalValues: Partial<ShellManConfig>,
+  profile: string | undefined,
+): ResolvedConfig['profile'] {
+  if (profile)
+    return { name: profile, source: { layer: 'flag', origin: '--profile' } }
+
+  const fromEnv = process.env[PROFILE_VARIABLE]
+  if (fromEnv)
+    return { name: fromEnv, source: { layer: 'env', origin: PROFILE_VARIABLE } }
+
+  const mapped = findDirectoryProfile(globalValues.DIRECTORY_PROFILES)
+  if (mapped)
+    return { name: mapped.name, source: { layer: 'global', origin: `${getConfigPath()} (DIRECTORY_PROFILES ${mapped.directory})` } }
+
+  if (globalValues.ACTIVE_PROFILE)
+    return { name: globalValues.ACTIVE_PROFILE, source: { layer: 'global', origin: `${getConfigPath()} (ACTIVE_PROFILE)` } }
+
+  return undefined
+}
+
+function sourceAll(source: ConfigSource): ConfigProvenance {
+  return Object.fromEntries(CONFIG_KEYS.map(key => [key, source])) as ConfigProvenance
+}
+
+// Resolve every layer, also returning the global layer so callers can update it without re-reading
+function resolveLayers(
+  overrides: Partial<ShellManConfig>,
+  profile?: string,
+): { resolved: ResolvedConfig, globalValues: Partial<ShellManConfig> } {
+  const config: ShellManConfig = { ...DEFAULT_CONFIG }
+  const provenance: ConfigProvenance = sourceAll({ layer: 'default', origin: 'defaults' })
+
+  const errors: ConfigValidationError[] = []
+
+  const apply = (values: Partial<ShellManConfig>, source: (key: ConfigKey) => ConfigSource) => {
+    for (const key of CONFIG_KEYS) {
+      if (values[key] !== undefined) {
+        (config as Record<ConfigKey, unknown>)[key] = values[key]
+        provenance[key] = source(key)
+      }
+    }
+  }
+
+  // Global config
+  let globalValues: Partial<ShellManConfig> = {}
+  const globalPath = getConfigPath()
+  if (configExists()) {
+    globalValues = readConfig() || {}
+    apply(globalValues, () => ({ layer: 'global', origin: globalPath }))
+    config.API_KEYS = globalValues.API_KEYS
+    config.PROFILES = globalValues.PROFILES
+    config.ACTIVE_PROFILE = globalValues.ACTIVE_PROFILE
+    config.DIRECTORY_PROFILES = globalValues.DIRECTORY_PROFILES
+    config.REDACTION_RULES = globalValues.REDACTION_RULES
+  }
+
+  // Profile, applied on top of the global values it was defined next to
+  const selected = selectProfile(globalValues, profile)
+  if (selected) {
+    const values = globalValues.PROFILES?.[selected.name]
+    if (values) {
+      apply(values, () => ({ layer: 'profile', origin: `profile ${selected.name} (${globalPath})` }))
+    }
+    else {
+      const known = Object.keys(globalValues.PROFILES || {})
+      errors.push(new ConfigValidationError('profile', `unknown profile "${selected.name}"${known.length > 0 ? `, expected one of ${known.join(', ')}` : ', add one with `shellman config profile add`'}`, selected.source.origin))
+    }
+  }
+
+  // Project config, a cloned repository must not choose where the user's key and prompts are sent
+  const projectPath = findProjectConfigPath()
+  if (projectPath) {
+    const projectValues: Partial<ShellManConfig> = { ...loadConfigFile(projectPath, false) }
+    if (projectValues.API_KEY !== undefined || projectValues.API_KEYS !== undefined)
+      logger.error.tag('Config').data(projectPath).message('API keys are ignored in project config files, use `shellman config key set` or SHELLMAN_API_KEY').print()
+    const ignored = PROJECT_IGNORED_KEYS.filter(key => projectValues[key] !== undefined)
+    if (ignored.length > 0)
+      logger.error.tag('Config').data(projectPath).message(`${ignored.join(', ')} ${ignored.length === 1 ? 'is' : 'are'} ignored in project config files, set ${ignored.length === 1 ? 'it' : 'them'} globally, in a profile or with a flag`).print()
+    for (const key of ['API_KEY', 'API_KEYS', ...PROJECT_IGNORED_KEYS] as const)
+      delete projectValues[key]
+    apply(projectValues, () => ({ layer: 'project', origin: projectPath }))
+  }
+
+  // Environment variables
+  const envOrigins: Partial<Record<ConfigKey, string>> = {}
+  const envValues: Partial<ShellManConfig> = {}
+  for (const key of CONFIG_KEYS) {
+    const variable = ENV_VARIABLES[key].find(name => process.env[name] !== undefined)
+    if (!variable)
+      continue
+    try {
+      (envValues as Partial<Record<ConfigKey, unknown>>)[key] = parseConfigValue(key, process.env[variable] as string)
+      envOrigins[key] = variable
+    }
+    catch (error) {
+      logger.error.tag('Config').data(variable).message((error as Error).message).print()
+    }
+  }
+  for (const [key, variable] of Object.entries(envOrigins))
+    errors.push(...validateConfigFields({ [key]: envValues[key as ConfigKey] }, variable))
+  apply(envValues, key => ({ layer: 'env', origin: envOrigins[key] as string }))
+
+  // CLI flags
+  for (const [key, value] of Object.entries(overrides))
+    errors.push(...validateConfigFields({ [key]: value }, FLAG_NAMES[key as ConfigKey] || key))
+  apply(overrides, key => ({ layer: 'flag', origin: FLAG_NAMES[key] || key }))
+
+  // Without an explicit key, use the one saved for the selected provider
+  const providerKey = config.API_KEYS?.[config.API_PROVIDER]
+  if (!config.API_KEY && providerKey) {
+    config.API_KEY = providerKey
+    provenance.API_KEY = { layer: 'global', origin: `${globalPath} (API_KEYS.${config.API_PROVIDER})` }
+  }
+
+  errors.push(...validateResolvedConfig(config).map(error =>
+    new ConfigValidationError(error.field, error.reason, provenance[error.field as ConfigKey]?.origin)))
+  if (errors.length > 0)
+    throw new ConfigError(errors)
+
+  return { resolved: { config, provenance, profile: selected }, globalValues }
+}
+
+/**
+ * Resolve the effective configuration from every layer, recording where each value came from
+ * - Lowest to highest priority: defaults, global config, selected profile, project `.shellmanrc`, SHELLMAN_* env vars, CLI flags
+ * - A project `.shellmanrc` cannot set keys, the provider, the endpoint or REDACT_PROMPTS
+ * - The profile comes from --profile, SHELLMAN_PROFILE, DIRECTORY_PROFILES or ACTIVE_PROFILE, in that order
+ */
+export function resolveConfig(overrides: Partial<ShellManConfig> = {}, profile?: string): ResolvedConfig {
+  return resolveLayers(overrides, profile).resolved
+}
+
+/**
+ * Convert a raw string from the command line into the typed value for a config key
+ */
+export function parseConfigValue(key: ConfigKey, raw: string): string | number | boolean | undefined {
+  if (key === 'HISTORY_ENABLE' || key === 'PROJECT_CONTEXT' || key === 'REDACT_PROMPTS') {
+    const normalized = raw.trim().toLowerCase()
+    if (['true', 'yes', 'on', '1'].includes(normalized))
+      return true
+    if (['false', 'no', 'off', '0'].includes(normalized))
+      return false
+    throw new Error(`Invalid value for ${key}: expected true or false, got "${raw}"`)
+  }
+
+  if (key === 'REQUEST_TIMEOUT' || key === 'REQUEST_RETRIES' || key === 'CACHE_TTL' || key === 'CONTEXT_TOKEN_BUDGET') {
+    const value = Number(raw.trim())
+    if (raw.trim() === '' || Number.isNaN(value))
+      throw new Error(`Invalid value for ${key}: expected a number, got "${raw}"`)
+    return value
+  }
+
+  if (key === 'API_CUSTOM_ENDPOINT' && raw.trim() === '')
+    return undefined
+
+  return raw
+}
+
+/**
+ * Prompt for where the API key of a provider is kept, returning the reference to save
+ * - A key typed in directly is encrypted into the credential store
+ */
+async function promptForApiKey(provider: string): Promise<string> {
+  logger.info.tag('API Key').data(provider).message('API Key is required for authentication').appendDivider().print()
 
   try {
-    const response = await prompts({
+    const { backend } = await prompts({
+      type: 'select',
+      name: 'backend',
+      message: `Where should the ${provider} API key be read from?`,
+      choices: [
+        { title: 'Encrypted credential store', value: 'store' },
+        { title: 'Environment variable', value: 'env' },
+        { title: 'Command, such as a password manager', value: 'cmd' },
+      ],
+    })
+
+    if (backend === 'env') {
+      const { variable } = await prompts({
+        type: 'text',
+        name: 'variable',
+        message: 'Environment variable name:',
+        initial: `${provider.toUpperCase()}_API_KEY`,
+      })
+      return variable ? `env:${variable}` : ''
+    }
+
+    if (backend === 'cmd') {
+      const { command } = await prompts({
+        type: 'text',
+        name: 'command',
+        message: 'Command that prints the key:',
+        initial: `pass show ${provider}`,
+      })
+      return command ? `cmd:${command}` : ''
+    }
+
+    if (backend !== 'store')
+      throw new Error('Key storage selection was interrupted')
+
+    const { apiKey } = await prompts({
       type: 'password',
       name: 'apiKey',
       message: 'Enter your API key:',
       validate: value => (value.length > 0 ? true : 'API key is required'),
     })
-
-    return response.apiKey || ''
+    return apiKey ? await storeCredential(provider, apiKey) : ''
   }
   catch (error) {
-    logger.info.tag('API Key').data('').message('API key input was interrupted. Using empty value.').appendDivider().print()
+    logger.info.tag('API Key').data(error).message('API key input was interrupted. Using empty value.').appendDivider().print()
     return ''
   }
 }
@@ -121,7 +431,7 @@ async function promptForApiProvider(): Promise<string> {
       type: 'select',
       name: 'provider',
       message: 'Select your API provider:',
-      choices: API_PROVIDERS.map(provider => ({
+      choices: listProviderNames().map(provider => ({
         title: provider,
         value: provider,
       })),
@@ -140,26 +450,43 @@ async function promptForApiProvider(): Promise<string> {
   }
 }
 
+// Value of the select choice that asks for a model name instead
+const CUSTOM_MODEL = '__custom__'
+
 /**
  * Prompt for API model based on selected provider
+ * - Lists the models last fetched with `shellman models`, or the built-in ones, and accepts any other name
  */
-async function promptForApiModel(provider: string): Promise<string> {
-  const models = PROVIDER_MODELS[provider] || []
+async function promptForApiModel(provider: string, endpoint?: string): Promise<string> {
+  const models = getKnownModels(provider, endpoint)
   logger.info.tag('API Model').data(models).message(`Select a model for ${provider}`).appendDivider().print()
 
   const defaultModel = models[0] || ''
 
   try {
-    const response = await prompts({
+    let response = await prompts({
       type: 'select',
       name: 'model',
       message: 'Select your API model:',
-      choices: models.map(model => ({
-        title: model,
-        value: model,
-      })),
+      choices: [
+        ...models.map(model => ({
+          title: model,
+          value: model,
+        })),
+        { title: 'Other, type a model name', value: CUSTOM_MODEL },
+      ],
     })
 
+    if (response.model === CUSTOM_MODEL) {
+      response = await prompts({
+        type: 'text',
+        name: 'model',
+        message: 'Model name:',
+        validate: value => (value.trim().length > 0 ? true : 'Model name cannot be empty'),
+      })
+      response.model = response.model?.trim()
+    }
+
     if (!response.model) {
       logger.info.tag('API Model').data(`Using default: ${defaultModel}`).message('Model selection was interrupted').appendDivider().print()
       return defaultModel
@@ -221,38 +548,44 @@ async function promptForHistoryEnable(): Promise<boolean> {
   }
 }
 
+// A model on another provider's built-in list was not chosen for this provider, custom names are kept
+function isOtherProviderModel(provider: string, model: string): boolean {
+  if (getKnownModels(provider).includes(model))
+    return false
+  return listProviderNames().some(name => name !== provider && getProvider(name)?.models.includes(model))
+}
+
 /**
  * Prompt for missing configuration options
+ * - Pass a profile name when the answers are saved to a profile instead of the global config
  */
 export async function promptForMissingConfig(
   partialConfig: Partial<ShellManConfig> = {},
+  { profile }: { profile?: string } = {},
 ): Promise<ShellManConfig> {
-  logger.info.tag('Config').data('').message('Setting up shell-man configuration').appendDivider().print()
+  logger.info.tag('Config Setup').data('').message('Configuration setup has started').appendDivider().print()
+  logger.info.tag('Config').data(profile ? `profile ${profile}` : '').message('Setting up shell-man configuration').appendDivider().print()
   logger.info.tag('Config').data('').message('Please provide the following information').appendDivider().print()
 
   const config = { ...DEFAULT_CONFIG, ...partialConfig }
 
   try {
-    // Skip API key if already provided
-    if (!config.API_KEY) {
-      // Prompt for API key
-      config.API_KEY = await promptForApiKey()
-    }
-
     // Skip provider if already provided
     if (!config.API_PROVIDER) {
       // Prompt for API provider
       config.API_PROVIDER = await promptForApiProvider()
     }
 
-    // Skip model if already provided for the current provider
-    const availableModels = PROVIDER_MODELS[config.API_PROVIDER] || []
-    if (
-      !config.API_MODEL
-      || !availableModels.includes(config.API_MODEL)
-    ) {
+    // Skip API key if already provided or not needed, keys are kept per provider so the provider comes first
+    if (!config.API_KEY && requiresApiKey(config.API_PROVIDER)) {
+      // Reuse the key saved for the provider, otherwise prompt for API key
+      config.API_KEY = config.API_KEYS?.[config.API_PROVIDER] || await promptForApiKey(config.API_PROVIDER)
+    }
+
+    // Skip model if already provided, unless it is a model of another provider, such as the default after switching providers
+    if (!config.API_MODEL || isOtherProviderModel(config.API_PROVIDER, config.API_MODEL)) {
       // Prompt for model based on provider
-      config.API_MODEL = await promptForApiModel(config.API_PROVIDER)
+      config.API_MODEL = await promptForApiModel(config.API_PROVIDER, config.API_CUSTOM_ENDPOINT)
     }
 
     // Prompt for custom endpoint if needed
@@ -273,115 +606,61 @@ export async function promptForMissingConfig(
 
 /**
  * Initialize config
- * - Checks if config exists
- * - If not, creates it with defaults in non-interactive mode or prompts in interactive mode
- * - Returns the config
+ * - Resolves the layered configuration
+ * - In interactive mode, prompts for missing required fields and saves the answers to the global config or selected profile
+ * - Non-interactive mode never writes to disk, so it is safe in CI
  */
 export async function initConfig(
   nonInteractive = false,
-): Promise<ShellManConfig> {
+  overrides: Partial<ShellManConfig> = {},
+  profile?: string,
+): Promise<ResolvedConfig> {
   try {
-    // Ensure config directory exists
-    ensureConfigDir()
-
-    // Check if config exists
-    if (!configExists()) {
-      // No config exists, create a new one
-      let config: ShellManConfig
-
-      if (nonInteractive) {
-        // In non-interactive mode, use default config values
-        config = { ...DEFAULT_CONFIG, source: 'defaults' }
-        const success = writeConfig(config)
-        if (success) {
-          logger.info.tag('Config').data(config).message(`Default configuration saved to ${getConfigPath()}`).appendDivider().print()
-        }
-        else {
-          logger.error.tag('Config Error').data('').message(`Failed to write configuration to ${getConfigPath()}`).appendDivider().print()
-        }
-      }
-      else {
-        // In interactive mode, prompt for config values
-        try {
-          config = await promptForMissingConfig()
-          config.source = 'user input'
-          const success = writeConfig(config)
-          if (success) {
-            logger.info.tag('Config').data(config).message(`Configuration saved to ${getConfigPath()}`).appendDivider().print()
-          }
-          else {
-            logger.error.tag('Config Error').data('').message(`Failed to write configuration to ${getConfigPath()}`).appendDivider().print()
-          }
-        }
-        catch (error) {
-          logger.error.tag('Config Error').data(error).message('Error during prompting').appendDivider().print()
-          // Fall back to defaults if prompting fails
-          config = { ...DEFAULT_CONFIG, source: 'defaults (fallback)' }
-          writeConfig(config)
-        }
-      }
-
-      return config
+    const { resolved, globalValues } = resolveLayers(overrides, profile)
+    const missingFields = validateConfig(resolved.config)
+
+    if (nonInteractive || missingFields.length === 0)
+      return resolved
+
+    // In interactive mode with missing fields, prompt for missing values
+    logger.info.tag('Config').data(missingFields).message('Some required configuration options are missing').appendDivider().print()
+    const profileName = resolved.profile?.name
+    const prompted = await promptForMissingConfig(resolved.config, { profile: profileName })
+
+    // Persist what the user entered, values from project files, env vars and flags stay where they are
+    // When a profile is selected the answers go into that profile instead of the global values
+    const globalConfig: Partial<ShellManConfig> = { ...globalValues }
+    const target: ProfileConfig = profileName ? { ...globalConfig.PROFILES?.[profileName] } : globalConfig
+    const provenance: ConfigProvenance = { ...resolved.provenance }
+    for (const key of CONFIG_KEYS) {
+      const changed = prompted[key] !== resolved.config[key]
+      if (!changed && provenance[key]?.layer !== 'default')
+        continue
+
+      // The key itself is never saved, only the reference to it under the selected provider
+      if (key === 'API_KEY' && prompted.API_KEY)
+        globalConfig.API_KEYS = { ...globalConfig.API_KEYS, [prompted.API_PROVIDER]: prompted.API_KEY }
+      else
+        (target as Partial<Record<ConfigKey, unknown>>)[key] = prompted[key]
+      provenance[key] = { layer: 'prompt', origin: 'interactive prompt' }
     }
-    else {
-      // Config exists, read it
-      const existingConfig = readConfig()
-      let config: ShellManConfig
-
-      if (existingConfig) {
-        // Check if config is valid and has all required fields
-        const missingFields = validateConfig(existingConfig)
-
-        if (nonInteractive && missingFields.length > 0) {
-          // In non-interactive mode with missing fields, fill in defaults
-          config = { ...existingConfig, source: 'existing with default additions' }
-          for (const field of missingFields) {
-            (config as any)[field] = (DEFAULT_CONFIG as any)[field]
-          }
-          const success = writeConfig(config)
-          if (success) {
-            logger.info.tag('Config').data({ path: getConfigPath(), missingFields }).message(`Configuration updated with defaults`).appendDivider().print()
-          }
-        }
-        else {
-          // In interactive mode with missing fields, prompt for missing values
-          if (missingFields.length > 0 && !nonInteractive) {
-            try {
-              logger.info.tag('Config').data(missingFields).message('Some required configuration options are missing').appendDivider().print()
-              config = await promptForMissingConfig(existingConfig)
-              config.source = 'existing with user updates'
-              const success = writeConfig(config)
-              if (success) {
-                logger.info.tag('Config').data({ path: getConfigPath(), config }).message(`Configuration updated`).appendDivider().print()
-              }
-            }
-            catch (error) {
-              logger.error.tag('Config Error').data(error).message('Error during prompting').appendDivider().print()
-              // Fall back to defaults for missing fields
-              config = { ...existingConfig, source: 'existing with default additions (fallback)' }
-              for (const field of missingFields) {
-                (config as any)[field] = (DEFAULT_CONFIG as any)[field]
-              }
-            }
-          }
-          else {
-            // Config is valid, use it
-            config = { ...existingConfig, source: 'existing (valid)' }
-          }
-        }
-      }
-      else {
-        // Failed to read config, create a new one with defaults
-        config = { ...DEFAULT_CONFIG, source: 'defaults (read error)' }
-        writeConfig(config)
-      }
+    if (profileName)
+      globalConfig.PROFILES = { ...globalConfig.PROFILES, [profileName]: target }
 
-      return config
-    }
+    if (writeConfig(globalConfig as ShellManConfig))
+      logger.info.tag('Config').data({ path: getConfigPath(), fields: Object.keys(globalConfig) }).message('Configuration saved').appendDivider().print()
+    else
+      logger.error.tag('Config Error').data('').message(`Failed to write configuration to ${getConfigPath()}`).appendDivider().print()
+
+    return { config: prompted, provenance, profile: resolved.profile }
   }
   catch (error) {
+    // Invalid values are reported to the user instead of being replaced with defaults
+    if (error instanceof ConfigError)
+      throw error
+
     logger.error.tag('Config Error').data(error).message('Error initializing configuration').appendDivider().print()
     // Return default config as a fallback
-    return { ...DEFAULT_CONFIG, source: 'defaults (error fallback)' }
+    return { config: { ...DEFAULT_CONFIG }, provenance: sourceAll({ layer: 'default', origin: 'defaults (error fallback)' }) }
   }
 }
@@ -0,0 +1,237 @@
+import { exec } from 'node:child_process'
+import { Buffer } from 'node:buffer'
+import * as crypto from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as process from 'node:process'
+import { ensureConfigDir, getConfigDir } from './config'
+import { registerSecret } from './logger'
+import type { CredentialBackend, CredentialReference } from './types'
+import { promptForSecret } from './ui'
+
+// How long a `cmd:` reference may take, password managers can wait for an unlock
+const CREDENTIAL_COMMAND_TIMEOUT_MS = 30000
+// Environment variable that unlocks the store without a prompt, for CI and scripts
+const PASSPHRASE_VARIABLE = 'SHELLMAN_PASSPHRASE'
+// Known plaintext encrypted with the store key, so a wrong passphrase is detected before anything is written
+const VERIFIER = 'shellman-credentials'
+
+/**
+ * Error raised when a credential reference cannot be resolved or stored
+ */
+export class CredentialError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CredentialError'
+  }
+}
+
+interface EncryptedValue {
+  iv: string
+  tag: string
+  data: string
+}
+
+interface CredentialStoreFile {
+  version: 1
+  salt: string
+  verifier: EncryptedValue
+  entries: Record<string, EncryptedValue>
+}
+
+// Key derived during this run, so the passphrase is asked for at most once
+let unlocked: { salt: string, key: Buffer } | undefined
+
+/**
+ * Get the path to the encrypted credential store
+ */
+export function getCredentialStorePath(): string {
+  return path.join(getConfigDir(), 'credentials.json')
+}
+
+/**
+ * Split a credential reference into its backend and target
+ * - `env:NAME`, `cmd:command line` and `store:name` are references, anything else is a literal key
+ */
+export function parseCredentialReference(reference: string): CredentialReference {
+  const match = reference.match(/^(env|cmd|store):([\s\S]*)$/)
+  if (!match)
+    return { backend: 'plain', target: reference }
+  return { backend: match[1] as CredentialBackend, target: match[2].trim() }
+}
+
+/**
+ * Check whether a value points at a key instead of being the key
+ */
+export function isCredentialReference(value: string): boolean {
+  return parseCredentialReference(value).backend !== 'plain'
+}
+
+function readStore(): CredentialStoreFile | undefined {
+  const storePath = getCredentialStorePath()
+  if (!fs.existsSync(storePath))
+    return undefined
+  try {
+    return JSON.parse(fs.readFileSync(storePath, 'utf-8')) as CredentialStoreFile
+  }
+  catch (error) {
+    throw new CredentialError(`Could not read credential store ${storePath}: ${(error as Error).message}`)
+  }
+}
+
+function writeStore(store: CredentialStoreFile): void {
+  ensureConfigDir()
+  const storePath = getCredentialStorePath()
+  fs.writeFileSync(storePath, JSON.stringify(store, null, 2), { encoding: 'utf-8', mode: 0o600 })
+  // The mode option only applies when the file is created
+  fs.chmodSync(storePath, 0o600)
+}
+
+function encrypt(key: Buffer, plaintext: string): EncryptedValue {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()])
+  return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') }
+}
+
+function decrypt(key: Buffer, value: EncryptedValue): string {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(value.iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(value.tag, 'base64'))
+  return Buffer.concat([decipher.update(Buffer.from(value.data, 'base64')), decipher.final()]).toString('utf-8')
+}
+
+function deriveKey(passphrase: string, salt: string): Buffer {
+  return crypto.scryptSync(passphrase, Buffer.from(salt, 'base64'), 32)
+}
+
+/**
+ * Read the store passphrase from SHELLMAN_PASSPHRASE or ask for it
+ * - A new store asks twice so a typo does not lock the keys away
+ */
+async function getPassphrase(nonInteractive: boolean, isNewStore: boolean): Promise<string> {
+  const fromEnv = process.env[PASSPHRASE_VARIABLE]
+  if (fromEnv)
+    return fromEnv
+
+  if (nonInteractive)
+    throw new CredentialError(`Set ${PASSPHRASE_VARIABLE} to unlock ${getCredentialStorePath()} in non-interactive mode`)
+
+  const passphrase = await promptForSecret(isNewStore ? 'Choose a passphrase for the credential store:' : 'Passphrase for the credential store:')
+  if (!passphrase)
+    throw new CredentialError('A passphrase is required to unlock the credential store')
+
+  if (isNewStore && await promptForSecret('Repeat the passphrase:') !== passphrase)
+    throw new CredentialError('Passphrases do not match')
+
+  return passphrase
+}
+
+async function unlockStore(store: CredentialStoreFile, nonInteractive: boolean): Promise<Buffer> {
+  if (unlocked?.salt === store.salt)
+    return unlocked.key
+
+  const key = deriveKey(await getPassphrase(nonInteractive, false), store.salt)
+  try {
+    if (decrypt(key, store.verifier) !== VERIFIER)
+      throw new Error('Verifier mismatch')
+  }
+  catch {
+    throw new CredentialError(`Wrong passphrase for ${getCredentialStorePath()}`)
+  }
+
+  unlocked = { salt: store.salt, key }
+  return key
+}
+
+async function createStore(nonInteractive: boolean): Promise<{ store: CredentialStoreFile, key: Buffer }> {
+  const salt = crypto.randomBytes(16).toString('base64')
+  const key = deriveKey(await getPassphrase(nonInteractive, true), salt)
+  unlocked = { salt, key }
+  return { store: { version: 1, salt, verifier: encrypt(key, VERIFIER), entries: {} }, key }
+}
+
+/**
+ * Encrypt a key into the credential store and return the reference to save in config.json
+ */
+export async function storeCredential(name: string, secret: string, nonInteractive = false): Promise<string> {
+  const existing = readStore()
+  const { store, key } = existing
+    ? { store: existing, key: await unlockStore(existing, nonInteractive) }
+    : await createStore(nonInteractive)
+
+  store.entries[name] = encrypt(key, secret)
+  writeStore(store)
+  registerSecret(secret)
+  return `store:${name}`
+}
+
+/**
+ * Delete a key from the credential store, no passphrase is needed to remove an entry
+ */
+export function removeCredential(name: string): boolean {
+  const store = readStore()
+  if (!store?.entries[name])
+    return false
+  delete store.entries[name]
+  writeStore(store)
+  return true
+}
+
+/**
+ * Check whether the credential store has an entry, without decrypting it
+ */
+export function hasStoredCredential(name: string): boolean {
+  return Boolean(readStore()?.entries[name])
+}
+
+// Run a `cmd:` reference and use the first line of its output, the way `pass show` prints the password first
+function runCredentialCommand(command: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    exec(command, { timeout: CREDENTIAL_COMMAND_TIMEOUT_MS, windowsHide: true }, (error, stdout) => {
+      if (error) {
+        reject(new CredentialError(`Credential command "${command}" failed: ${error.message.trim()}`))
+        return
+      }
+      const secret = stdout.split(/\r?\n/)[0].trim()
+      if (!secret)
+        reject(new CredentialError(`Credential command "${command}" printed nothing`))
+      else
+        resolve(secret)
+    })
+  })
+}
+
+/**
+ * Resolve a credential reference to the key it points at
+ * - The key is registered with the logger so it is redacted from all output
+ */
+export async function resolveCredential(reference: string, nonInteractive = false): Promise<string> {
+  const { backend, target } = parseCredentialReference(reference)
+  let secret: string
+
+  switch (backend) {
+    case 'env': {
+      const value = process.env[target]
+      if (!value)
+        throw new CredentialError(`Environment variable ${target} is not set`)
+      secret = value
+      break
+    }
+    case 'cmd':
+      secret = await runCredentialCommand(target)
+      break
+    case 'store': {
+      const store = readStore()
+      const entry = store?.entries[target]
+      if (!store || !entry)
+        throw new CredentialError(`No key named "${target}" in ${getCredentialStorePath()}, add it with \`shellman config key set ${target}\``)
+      secret = decrypt(await unlockStore(store, nonInteractive), entry)
+      break
+    }
+    default:
+      secret = target
+  }
+
+  registerSecret(secret)
+  return secret
+}
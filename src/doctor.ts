@@ -0,0 +1,162 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as process from 'node:process'
+import { logger } from './logger'
+import { configExists, findProjectConfigPath, getConfigDir, getConfigPath, requiresApiKey, resolveConfig, validateConfig } from './config'
+import { getCredentialStorePath, hasStoredCredential, parseCredentialReference } from './credentials'
+import { findExecutable } from './environment'
+import { getKnownModels } from './models'
+import { getRedactionRules } from './privacy'
+import { getProvider } from './providers'
+import { ConfigError } from './schema'
+import type { DoctorCheck, EnvironmentInfo, ResolvedConfig, ShellManConfig } from './types'
+
+function checkConfig(): DoctorCheck[] {
+  const checks: DoctorCheck[] = [configExists()
+    ? { name: 'Global config', status: 'ok', detail: getConfigPath() }
+    : { name: 'Global config', status: 'warn', detail: `${getConfigPath()} does not exist, using defaults and environment variables` }]
+
+  const projectPath = findProjectConfigPath()
+  if (projectPath)
+    checks.push({ name: 'Project config', status: 'ok', detail: projectPath })
+
+  let resolved: ResolvedConfig
+  try {
+    resolved = resolveConfig()
+  }
+  catch (error) {
+    if (!(error instanceof ConfigError))
+      throw error
+    return [...checks, ...error.errors.map((issue): DoctorCheck => ({ name: `Field ${issue.field}`, status: 'fail', detail: issue.message }))]
+  }
+
+  const { config } = resolved
+  if (resolved.profile)
+    checks.push({ name: 'Profile', status: 'ok', detail: `${resolved.profile.name} (${resolved.profile.source.origin})` })
+
+  const missingFields = validateConfig(config)
+  checks.push(missingFields.length > 0
+    ? { name: 'Required fields', status: 'fail', detail: `Missing ${missingFields.join(', ')}` }
+    : { name: 'Required fields', status: 'ok', detail: 'All required fields are set' })
+
+  if (config.API_KEY)
+    checks.push(checkApiKey(resolved))
+  else if (!requiresApiKey(config.API_PROVIDER))
+    checks.push({ name: 'API key', status: 'ok', detail: `Not needed for ${config.API_PROVIDER}` })
+
+  const provider = getProvider(config.API_PROVIDER)
+  if (!provider) {
+    checks.push({ name: 'Provider', status: 'fail', detail: `Unknown provider "${config.API_PROVIDER}"` })
+  }
+  else {
+    checks.push({ name: 'Provider', status: 'ok', detail: provider.name })
+    checks.push(getKnownModels(provider.name, config.API_CUSTOM_ENDPOINT).includes(config.API_MODEL)
+      ? { name: 'Model', status: 'ok', detail: config.API_MODEL }
+      : { name: 'Model', status: 'warn', detail: `"${config.API_MODEL}" is not a known ${provider.name} model, update the list with \`shellman models --refresh\`` })
+  }
+
+  checks.push(checkRedaction(config))
+
+  if (config.API_CUSTOM_ENDPOINT) {
+    try {
+      const url = new URL(config.API_CUSTOM_ENDPOINT)
+      checks.push({ name: 'Custom endpoint', status: 'ok', detail: url.toString() })
+    }
+    catch {
+      checks.push({ name: 'Custom endpoint', status: 'fail', detail: `"${config.API_CUSTOM_ENDPOINT}" is not a valid URL` })
+    }
+  }
+
+  return checks
+}
+
+// Check that the key reference can be resolved, without running commands or asking for the passphrase
+function checkApiKey({ config, provenance, profile }: ResolvedConfig): DoctorCheck {
+  const { backend, target } = parseCredentialReference(config.API_KEY)
+  const name = 'API key'
+
+  switch (backend) {
+    case 'env':
+      return process.env[target]
+        ? { name, status: 'ok', detail: `Read from ${target}` }
+        : { name, status: 'fail', detail: `Environment variable ${target} is not set` }
+    case 'cmd': {
+      const program = target.split(/\s+/)[0]
+      return findExecutable(program)
+        ? { name, status: 'ok', detail: `Read from command "${target}"` }
+        : { name, status: 'fail', detail: `Command "${program}" was not found in PATH` }
+    }
+    case 'store':
+      return hasStoredCredential(target)
+        ? { name, status: 'ok', detail: `Encrypted in ${getCredentialStorePath()}` }
+        : { name, status: 'fail', detail: `No key named "${target}" in ${getCredentialStorePath()}` }
+    default:
+      if (provenance.API_KEY?.layer === 'profile' && profile)
+        return { name, status: 'warn', detail: `Stored in plain text, move it with \`shellman config set --profile ${profile.name} API_KEY <key>\`` }
+      return provenance.API_KEY?.layer === 'global'
+        ? { name, status: 'warn', detail: `Stored in plain text, move it with \`shellman config key set ${config.API_PROVIDER}\`` }
+        : { name, status: 'ok', detail: `Read from ${provenance.API_KEY?.origin ?? 'configuration'}` }
+  }
+}
+
+// Prompts for a local model never leave the machine, anything else should be redacted
+function checkRedaction(config: ShellManConfig): DoctorCheck {
+  const name = 'Prompt redaction'
+  if (!config.REDACT_PROMPTS) {
+    return getProvider(config.API_PROVIDER)?.apiKeyOptional
+      ? { name, status: 'ok', detail: `Off, ${config.API_PROVIDER} runs locally` }
+      : { name, status: 'warn', detail: 'Off, prompts are sent as typed, turn it on with `shellman config set REDACT_PROMPTS true`' }
+  }
+  const rules = getRedactionRules(config)
+  const detectors = [
+    rules.secrets && 'secrets',
+    rules.entropy && 'random-looking strings',
+    rules.identity && 'home, user and host names',
+    'internal hosts',
+    rules.patterns.length > 0 && `${rules.patterns.length} custom ${rules.patterns.length === 1 ? 'pattern' : 'patterns'}`,
+  ].filter(Boolean)
+  return { name, status: 'ok', detail: `Replacing ${detectors.join(', ')}` }
+}
+
+function checkShell(info: EnvironmentInfo): DoctorCheck {
+  // Windows fallbacks such as `cmd.exe` are resolved through PATH, only check absolute paths
+  if (!path.isAbsolute(info.shellPath))
+    return { name: 'Shell', status: 'ok', detail: `${info.shellName} (${info.shellPath})` }
+
+  return fs.existsSync(info.shellPath)
+    ? { name: 'Shell', status: 'ok', detail: `${info.shellName} (${info.shellPath})` }
+    : { name: 'Shell', status: 'fail', detail: `${info.shellPath} does not exist` }
+}
+
+function checkConfigDirWritable(): DoctorCheck {
+  const configDir = getConfigDir()
+  try {
+    if (fs.existsSync(configDir))
+      fs.accessSync(configDir, fs.constants.W_OK)
+    return { name: 'Config directory', status: 'ok', detail: configDir }
+  }
+  catch {
+    return { name: 'Config directory', status: 'fail', detail: `${configDir} is not writable` }
+  }
+}
+
+/**
+ * Run all diagnostics for the configuration and environment
+ */
+export function runDoctorChecks(info: EnvironmentInfo): DoctorCheck[] {
+  return [
+    ...checkConfig(),
+    checkConfigDirWritable(),
+    checkShell(info),
+  ]
+}
+
+/**
+ * Print diagnostics results, failures through the error logger
+ */
+export function displayDoctorChecks(checks: DoctorCheck[]): void {
+  for (const check of checks) {
+    const log = check.status === 'fail' ? logger.error : logger.info
+    log.tag(`${check.status.toUpperCase()} ${check.name}`).data(check.detail).print()
+  }
+}
@@ -1,9 +1,52 @@
+import { execFile } from 'node:child_process'
+import * as fs from 'node:fs'
 import * as os from 'node:os'
 import * as path from 'node:path'
 import * as process from 'node:process'
-import { logger } from '@shermant/logger'
 import type ora from 'ora'
-import type { EnvironmentInfo, ShellInfo } from './types'
+import { logger } from './logger'
+import { describeProject, gatherProjectContext } from './project'
+import type { ShellFamily } from './safety'
+import { getShellFamily, listPrograms } from './safety'
+import type { CoreutilsFlavor, EnvironmentInfo, ExtendedEnvironmentInfo, ShellInfo, ShellManConfig, ToolInfo } from './types'
+
+// Upper bound for a single probe so a hanging binary cannot stall startup
+const PROBE_TIMEOUT_MS = 2000
+
+// Tools whose presence changes which command the model should suggest
+const PROBED_TOOLS = ['git', 'docker', 'jq', 'rg', 'fd', 'fdfind', 'curl', 'wget', 'python3', 'node', 'make']
+
+// Package managers in order of preference per platform
+const PACKAGE_MANAGERS: Record<string, string[]> = {
+  linux: ['apt', 'dnf', 'yum', 'pacman', 'zypper', 'apk', 'nix', 'brew'],
+  darwin: ['brew', 'port', 'nix'],
+  win32: ['winget', 'choco', 'scoop'],
+}
+
+// Builtins and keywords that are never found on PATH
+const SHELL_BUILTINS: Record<ShellFamily, Set<string>> = {
+  posix: new Set(['.', ':', '[', '[[', '!', 'alias', 'bg', 'break', 'case', 'cd', 'continue', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'eval', 'exit', 'export', 'false', 'fg', 'fi', 'for', 'function', 'if', 'jobs', 'local', 'printf', 'pwd', 'read', 'return', 'set', 'shift', 'source', 'test', 'then', 'trap', 'true', 'type', 'ulimit', 'umask', 'unalias', 'unset', 'until', 'wait', 'while']),
+  powershell: new Set(['cat', 'cd', 'cls', 'copy', 'cp', 'del', 'dir', 'echo', 'foreach', 'if', 'ls', 'mkdir', 'move', 'mv', 'pwd', 'rm', 'rmdir', 'sort', 'type', 'where']),
+  cmd: new Set(['assoc', 'call', 'cd', 'chdir', 'cls', 'copy', 'date', 'del', 'dir', 'echo', 'erase', 'exit', 'for', 'if', 'md', 'mkdir', 'move', 'path', 'pushd', 'popd', 'rd', 'ren', 'rename', 'rmdir', 'set', 'start', 'time', 'title', 'type', 'ver', 'vol']),
+}
+
+let cachedInfo: Promise<ExtendedEnvironmentInfo> | undefined
+
+/**
+ * List the programs of a command that are not on PATH, ignoring shell builtins
+ * - PowerShell cmdlets such as Get-ChildItem are not executables and count as available
+ * - Tokens that are not plain program names, like subshells or variables, are skipped
+ */
+export function findMissingPrograms(command: string, info: EnvironmentInfo): string[] {
+  const family = getShellFamily(info.shellName)
+  return listPrograms(command).filter((program) => {
+    if (!/^[\w.+-]+$/.test(program) || SHELL_BUILTINS[family].has(program.toLowerCase()))
+      return false
+    if (family === 'powershell' && /^[a-z]+-[a-z]+$/i.test(program))
+      return false
+    return !findExecutable(program)
+  })
+}
 
 function getShellInfo(): ShellInfo {
   if (process.platform === 'win32') {
@@ -47,17 +90,195 @@ export function getEnvironmentInfo(): EnvironmentInfo {
   }
 }
 
+/**
+ * Find an executable on PATH, honouring PATHEXT on Windows
+ */
+export function findExecutable(name: string): string | undefined {
+  const extensions = process.platform === 'win32'
+    ? (process.env.PATHEXT || '.EXE;.CMD;.BAT;.COM').split(';').map(ext => ext.toLowerCase())
+    : ['']
+
+  for (const dir of (process.env.PATH || '').split(path.delimiter)) {
+    if (!dir)
+      continue
+    for (const ext of extensions) {
+      const candidate = path.join(dir, name + ext)
+      try {
+        fs.accessSync(candidate, fs.constants.X_OK)
+        if (fs.statSync(candidate).isFile())
+          return candidate
+      }
+      catch {
+        // Not in this directory
+      }
+    }
+  }
+  return undefined
+}
+
+// Run a probe command and return its combined output, or undefined when it fails
+function probe(file: string, args: string[]): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    execFile(file, args, { timeout: PROBE_TIMEOUT_MS, windowsHide: true }, (error, stdout, stderr) => {
+      const output = `${stdout}${stderr}`.trim()
+      resolve(error && !output ? undefined : output)
+    })
+  })
+}
+
+function extractVersion(output: string | undefined): string | undefined {
+  return output?.match(/\d+\.\d+(?:\.\d+)?/)?.[0]
+}
+
+function readDistro(): string | undefined {
+  if (process.platform !== 'linux')
+    return undefined
+
+  try {
+    const fields: Record<string, string> = {}
+    for (const line of fs.readFileSync('/etc/os-release', 'utf-8').split('\n')) {
+      const match = line.match(/^([A-Z_]+)=(.*)$/)
+      if (match)
+        fields[match[1]] = match[2].replace(/^"(.*)"$/, '$1')
+    }
+    return fields.PRETTY_NAME || [fields.NAME, fields.VERSION_ID].filter(Boolean).join(' ') || undefined
+  }
+  catch {
+    return undefined
+  }
+}
+
+function detectPackageManager(): string | undefined {
+  return (PACKAGE_MANAGERS[process.platform] || []).find(name => findExecutable(name))
+}
+
+async function probeTools(): Promise<ToolInfo[]> {
+  const found = PROBED_TOOLS
+    .map(name => ({ name, path: findExecutable(name) }))
+    .filter((tool): tool is { name: string, path: string } => Boolean(tool.path))
+
+  return Promise.all(found.map(async tool => ({
+    ...tool,
+    version: extractVersion(await probe(tool.path, ['--version'])),
+  })))
+}
+
+async function detectCoreutils(): Promise<CoreutilsFlavor | undefined> {
+  if (process.platform === 'win32')
+    return undefined
+
+  const output = await probe('ls', ['--version'])
+  if (output?.includes('GNU'))
+    return 'gnu'
+  if (output?.includes('BusyBox'))
+    return 'busybox'
+  // BSD ls rejects --version
+  return process.platform === 'linux' ? undefined : 'bsd'
+}
+
+async function detectShellVersion(shell: ShellInfo): Promise<string | undefined> {
+  const name = shell.name.toLowerCase()
+  if (name === 'cmd')
+    return extractVersion(await probe(shell.path, ['/d', '/c', 'ver']))
+  if (name === 'powershell' || name === 'pwsh')
+    return extractVersion(await probe(shell.path, ['-NoProfile', '-Command', '$PSVersionTable.PSVersion.ToString()']))
+  return extractVersion(await probe(shell.path, ['--version']))
+}
+
+function isInsideGitRepository(dir: string): boolean {
+  let current = path.resolve(dir)
+  while (true) {
+    if (fs.existsSync(path.join(current, '.git')))
+      return true
+    const parent = path.dirname(current)
+    if (parent === current)
+      return false
+    current = parent
+  }
+}
+
+async function probeEnvironment(): Promise<ExtendedEnvironmentInfo> {
+  const shellInfo = getShellInfo()
+  const [tools, coreutils, shellVersion] = await Promise.all([
+    probeTools(),
+    detectCoreutils(),
+    detectShellVersion(shellInfo),
+  ])
+
+  return {
+    ...getEnvironmentInfo(),
+    distro: readDistro(),
+    packageManager: detectPackageManager(),
+    tools,
+    coreutils,
+    cwd: process.cwd(),
+    isGitRepository: isInsideGitRepository(process.cwd()),
+    shellVersion,
+  }
+}
+
+/**
+ * Probe the environment in detail, the result is cached for the lifetime of the process
+ */
 export async function gatherEnvironmentInfo(
   spinner?: ReturnType<typeof ora>,
-): Promise<EnvironmentInfo> {
+): Promise<ExtendedEnvironmentInfo> {
   if (spinner) {
     spinner.text = 'Gathering environment information...'
   }
 
-  // Simulate a small delay to show the spinner (for better UX)
-  await new Promise(resolve => setTimeout(resolve, 800))
+  cachedInfo ??= probeEnvironment()
+  return cachedInfo
+}
+
+/**
+ * Add a summary of the project in the working directory when PROJECT_CONTEXT is on
+ * - The summary is kept within CONTEXT_TOKEN_BUDGET and skips anything on the ignore list
+ */
+export async function addProjectContext(
+  info: ExtendedEnvironmentInfo,
+  config: ShellManConfig,
+  spinner?: ReturnType<typeof ora>,
+): Promise<ExtendedEnvironmentInfo> {
+  if (!config.PROJECT_CONTEXT)
+    return info
+
+  if (spinner) {
+    spinner.text = 'Summarizing the project...'
+  }
+  return { ...info, project: await gatherProjectContext(info.cwd, config.CONTEXT_TOKEN_BUDGET) }
+}
 
-  return getEnvironmentInfo()
+/**
+ * Describe the environment as prompt lines for the model
+ * - Detailed fields are only included when the info came from gatherEnvironmentInfo()
+ * - The project summary is only included when it was gathered with PROJECT_CONTEXT on
+ */
+export function describeEnvironment(info: EnvironmentInfo): string[] {
+  const lines = [
+    `Shell: ${info.shellName} (${info.shellPath})`,
+    `Operating system: ${info.osType} ${info.osVersion} (${info.architecture})`,
+  ]
+
+  const extended = info as Partial<ExtendedEnvironmentInfo>
+  if (extended.shellVersion)
+    lines[0] = `Shell: ${info.shellName} ${extended.shellVersion} (${info.shellPath})`
+  if (extended.distro)
+    lines.push(`Distribution: ${extended.distro}`)
+  if (extended.packageManager)
+    lines.push(`Package manager: ${extended.packageManager}`)
+  if (extended.coreutils)
+    lines.push(`Core utilities: ${extended.coreutils}`)
+  if (extended.tools) {
+    const tools = extended.tools.map(tool => (tool.version ? `${tool.name} ${tool.version}` : tool.name))
+    lines.push(`Available tools: ${tools.length > 0 ? tools.join(', ') : 'none of the common ones'}`)
+  }
+  if (extended.cwd)
+    lines.push(`Working directory: ${extended.cwd}${extended.isGitRepository ? ' (inside a git repository)' : ''}`)
+  if (extended.project)
+    lines.push(...describeProject(extended.project))
+
+  return lines
 }
 
 export function displayEnvironmentInfo(
@@ -74,6 +295,29 @@ export function displayEnvironmentInfo(
       'Shell Name': info.shellName,
     }).appendDivider().print()
 
+    // Detailed probe results, when available
+    const extended = info as Partial<ExtendedEnvironmentInfo>
+    if (extended.tools) {
+      logger.info.tag('\nDetected Environment').data({
+        'Distribution': extended.distro,
+        'Package Manager': extended.packageManager,
+        'Core Utilities': extended.coreutils,
+        'Shell Version': extended.shellVersion,
+        'Git Repository': extended.isGitRepository,
+        'Tools': extended.tools.map(tool => `${tool.name}${tool.version ? ` ${tool.version}` : ''}`),
+      }).appendDivider().print()
+    }
+
+    // What is sent about the project, and what the ignore list kept back
+    if (extended.project) {
+      logger.info.tag('\nProject Context').data({
+        'Directory': extended.project.directory,
+        'Estimated Tokens': extended.project.tokens,
+        'Truncated': extended.project.truncated,
+        'Ignored': extended.project.ignored,
+      }).message(extended.project.lines.join('\n')).appendDivider().print()
+    }
+
     // Process information
     logger.info.tag('\nProcess Information').data({
       'Node Version': process.version,
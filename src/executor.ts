@@ -0,0 +1,166 @@
+import { spawn } from 'node:child_process'
+import * as process from 'node:process'
+import { logger } from './logger'
+import { SafetyError, analyzeCommand, displayRiskAssessment } from './safety'
+import { promptForAction, promptForEdit, promptForTypedConfirmation } from './ui'
+import type { EnvironmentInfo, ExecutionResult, RiskAssessment } from './types'
+
+export interface ConfirmOptions {
+  interactive: boolean
+  yes?: boolean
+  // Set by --dry-run, previews the command before the prompt and after every edit
+  dryRun?: (command: string) => Promise<void>
+}
+
+/**
+ * Build the arguments that make the detected shell run a single command string
+ */
+export function getShellArgs(info: EnvironmentInfo, command: string): string[] {
+  const shellName = info.shellName.toLowerCase()
+
+  if (shellName === 'cmd')
+    return ['/d', '/s', '/c', `"${command}"`]
+  if (shellName === 'powershell' || shellName === 'pwsh')
+    return ['-NoProfile', '-Command', command]
+
+  return ['-c', command]
+}
+
+/**
+ * Run a command through the detected shell, streaming its output live
+ * - Resolves with the exit code, or 1 when the process was killed by a signal
+ */
+export function runCommand(command: string, info: EnvironmentInfo): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(info.shellPath, getShellArgs(info, command), {
+      stdio: 'inherit',
+      windowsVerbatimArguments: info.shellName.toLowerCase() === 'cmd',
+    })
+
+    child.on('error', reject)
+    child.on('close', (code) => {
+      resolve(code ?? 1)
+    })
+  })
+}
+
+/**
+ * Clipboard commands to try for the current platform, in order of preference
+ */
+function getClipboardCommands(): string[][] {
+  if (process.platform === 'darwin')
+    return [['pbcopy']]
+  if (process.platform === 'win32')
+    return [['clip']]
+  return [['wl-copy'], ['xclip', '-selection', 'clipboard'], ['xsel', '--clipboard', '--input']]
+}
+
+function pipeToCommand(argv: string[], text: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const child = spawn(argv[0], argv.slice(1), { stdio: ['pipe', 'ignore', 'ignore'] })
+    child.on('error', () => resolve(false))
+    child.on('close', code => resolve(code === 0))
+    child.stdin.end(text)
+  })
+}
+
+/**
+ * Copy text to the system clipboard, returning whether any clipboard tool succeeded
+ */
+export async function copyToClipboard(text: string): Promise<boolean> {
+  for (const argv of getClipboardCommands()) {
+    if (await pipeToCommand(argv, text))
+      return true
+  }
+  return false
+}
+
+async function execute(command: string, info: EnvironmentInfo): Promise<ExecutionResult> {
+  logger.info.tag('Run').data(command).message(`Running with ${info.shellPath}`).appendDivider().print()
+  const exitCode = await runCommand(command, info)
+
+  if (exitCode === 0)
+    logger.info.tag('Exit Code').data(exitCode).message('Command completed successfully').print()
+  else
+    logger.error.tag('Exit Code').data(exitCode).message('Command failed').print()
+
+  return { command, executed: true, exitCode }
+}
+
+/**
+ * Run a command after the safety check, asking for typed confirmation when it is high risk
+ */
+export async function executeChecked(
+  command: string,
+  info: EnvironmentInfo,
+  risk: RiskAssessment,
+  options: ConfirmOptions,
+): Promise<ExecutionResult> {
+  if (risk.level === 'high') {
+    if (!options.interactive)
+      throw new SafetyError('Refusing to run a high-risk command in non-interactive mode', risk)
+    if (!(await promptForTypedConfirmation())) {
+      logger.info.tag('Run').data(command).message('Confirmation did not match, command was not run').print()
+      return { command, executed: false }
+    }
+  }
+
+  return execute(command, info)
+}
+
+/**
+ * Offer Run / Edit / Copy / Cancel for a generated command
+ * - Every version of the command is classified and its risk shown before anything else happens
+ * - Non-interactive mode only executes with an explicit `yes` opt-in and never runs high-risk commands
+ * - `yes` in interactive mode skips the menu, high-risk commands still need typed confirmation
+ * - With `dryRun`, the preview comes before the menu and nothing runs unless picked from it, `yes` included
+ * - The preview never runs a high-risk command, those are only estimated from their arguments
+ */
+export async function confirmAndExecute(
+  command: string,
+  info: EnvironmentInfo,
+  options: ConfirmOptions,
+): Promise<ExecutionResult> {
+  let risk = analyzeCommand(command, info)
+  displayRiskAssessment(risk)
+  await options.dryRun?.(command)
+
+  if (options.dryRun && (options.yes || !options.interactive)) {
+    logger.info.tag('Run').data('').message('Dry run, the command was not run').print()
+    return { command, executed: false }
+  }
+
+  if (options.yes)
+    return executeChecked(command, info, risk, options)
+
+  if (!options.interactive) {
+    logger.info.tag('Run').data('').message('Not executed, pass --yes to run commands in non-interactive mode').print()
+    return { command, executed: false }
+  }
+
+  let current = command
+  while (true) {
+    const action = await promptForAction()
+
+    switch (action) {
+      case 'run':
+        return executeChecked(current, info, risk, options)
+      case 'edit':
+        current = await promptForEdit(current)
+        logger.info.tag('Command').data(current).appendDivider().print()
+        risk = analyzeCommand(current, info)
+        displayRiskAssessment(risk)
+        await options.dryRun?.(current)
+        break
+      case 'copy':
+        if (await copyToClipboard(current))
+          logger.info.tag('Copy').data(current).message('Command copied to clipboard').print()
+        else
+          logger.error.tag('Copy').data(current).message('No clipboard tool available, copy the command manually').print()
+        return { command: current, executed: false }
+      case 'cancel':
+      default:
+        return { command: current, executed: false }
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { getCacheKey } from './cache'
+import { logger } from './logger'
+import { describeEnvironment } from './environment'
+import type { CompletionOptions } from './generator'
+import { GenerationError, isJsonObject, parseJsonReply, requestCompletion } from './generator'
+import { buildSystemPrompt } from './prompts'
+import { analyzeCommand, analyzeSegments, displayRiskAssessment } from './safety'
+import type { ChatMessage, CommandExplanation, EnvironmentInfo, ExplanationPart, PromptTemplates, RiskAssessment, ShellManConfig } from './types'
+
+/**
+ * Build the chat messages that ask the provider to break down a command
+ * - An `explain` prompt template replaces the built-in system prompt
+ */
+export function buildExplanationMessages(
+  command: string,
+  info: EnvironmentInfo,
+  prompts?: PromptTemplates,
+): ChatMessage[] {
+  const system = buildSystemPrompt('explain', prompts, {
+    lines: [
+      'You explain existing shell commands to the person who is about to run them.',
+      'Their environment:',
+      ...describeEnvironment(info),
+      'Break the command into its parts: the program, each flag or option, each argument and each operator.',
+      'For every part say what it does and any side effects such as deleting, overwriting, network access or privilege changes.',
+      'Say whether the command works unchanged in their shell on their operating system.',
+    ],
+    format: [
+      'Reply with JSON only, in the form',
+      '{"summary": "...", "parts": [{"text": "...", "description": "...", "sideEffects": "..."}], "portable": true, "portabilityNotes": "..."}.',
+      'Omit sideEffects when a part has none. Do not wrap the JSON in markdown.',
+    ],
+    info,
+    variables: { text: command, command },
+  })
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: command },
+  ]
+}
+
+/**
+ * Turn a raw model reply into a structured explanation
+ * - A reply that is not JSON is kept as the summary with no parts
+ */
+export function parseExplanation(raw: string): CommandExplanation {
+  const parsed = parseJsonReply(raw)
+  if (!parsed || typeof parsed.summary !== 'string')
+    return { summary: raw.trim(), parts: [], portable: true, raw }
+
+  const parts: ExplanationPart[] = Array.isArray(parsed.parts)
+    ? parsed.parts
+        .filter(isJsonObject)
+        .filter(part => typeof part.text === 'string' && typeof part.description === 'string')
+        .map(part => ({
+          text: String(part.text),
+          description: String(part.description),
+          sideEffects: typeof part.sideEffects === 'string' && part.sideEffects ? part.sideEffects : undefined,
+        }))
+    : []
+
+  return {
+    summary: parsed.summary,
+    parts,
+    portable: parsed.portable !== false,
+    portabilityNotes: typeof parsed.portabilityNotes === 'string' && parsed.portabilityNotes ? parsed.portabilityNotes : undefined,
+    raw,
+  }
+}
+
+/**
+ * Ask the configured provider to explain a command for the given environment
+ */
+export async function explainCommand(
+  command: string,
+  info: EnvironmentInfo,
+  config: ShellManConfig,
+  options: CompletionOptions = {},
+): Promise<CommandExplanation> {
+  const cacheKey = getCacheKey('explain', command, info, config)
+  const raw = await requestCompletion(config, buildExplanationMessages(command, info, config.PROMPT_TEMPLATES), { ...options, cacheKey })
+  const explanation = parseExplanation(raw)
+
+  if (!explanation.summary && explanation.parts.length === 0)
+    throw new GenerationError('Provider returned an empty explanation')
+
+  return explanation
+}
+
+/**
+ * Print an explanation, highlighting parts that belong to a risky simple command
+ */
+export function displayExplanation(
+  command: string,
+  explanation: CommandExplanation,
+  info: EnvironmentInfo,
+): RiskAssessment {
+  const risk = analyzeCommand(command, info)
+  const riskySegments = analyzeSegments(command, info)
+    .filter(({ assessment }) => assessment.level !== 'low')
+    .map(({ segment }) => segment)
+
+  logger.info.tag('Command').data(command).message(explanation.summary).appendDivider().print()
+
+  for (const part of explanation.parts) {
+    const risky = riskySegments.some(segment => segment.includes(part.text))
+    const log = risky ? logger.error : logger.info
+    log.tag(risky ? `${part.text} (risky)` : part.text)
+      .data(part.description)
+      .message(part.sideEffects ? `Side effects: ${part.sideEffects}` : '')
+      .print()
+  }
+
+  const portability = explanation.portable
+    ? `Works in ${info.shellName} on ${info.osType}`
+    : `May not work in ${info.shellName} on ${info.osType}`
+  logger.info.tag('Portability').data(portability).message(explanation.portabilityNotes || '').appendDivider().print()
+
+  displayRiskAssessment(risk)
+  return risk
+}
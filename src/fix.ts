@@ -0,0 +1,151 @@
+import * as fs from 'node:fs'
+import * as process from 'node:process'
+import { getCacheKey } from './cache'
+import { describeEnvironment } from './environment'
+import type { CompletionOptions } from './generator'
+import { GenerationError, parseJsonReply, requestCompletion, stripCodeFence } from './generator'
+import { buildSystemPrompt } from './prompts'
+import type { ChatMessage, CommandFix, EnvironmentInfo, FailedCommand, PromptTemplates, ShellManConfig } from './types'
+
+// Passed to `shellman fix` by the `shellman init` hook after a command fails
+export const LAST_COMMAND_VARIABLE = 'SHELLMAN_LAST_COMMAND'
+export const LAST_STATUS_VARIABLE = 'SHELLMAN_LAST_STATUS'
+
+// Error output is cut to its end, where the actual error usually is
+const MAX_STDERR_LENGTH = 4000
+
+export interface FailedCommandOptions {
+  command?: string
+  exitCode?: string
+  stderr?: string
+  stderrFile?: string
+}
+
+/**
+ * Error raised when there is no failed command to fix
+ */
+export class FixError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FixError'
+  }
+}
+
+function parseExitCode(value: string | undefined, origin: string): number | undefined {
+  if (value === undefined || value === '')
+    return undefined
+  const exitCode = Number(value)
+  if (!Number.isInteger(exitCode))
+    throw new FixError(`Expected a whole number exit code from ${origin}, got "${value}"`)
+  return exitCode
+}
+
+/**
+ * Collect the failed command from flags, falling back to what the shell hook recorded
+ * - The exit code from the hook only applies when the command came from the hook as well
+ */
+export function readFailedCommand(options: FailedCommandOptions): FailedCommand {
+  const recorded = process.env[LAST_COMMAND_VARIABLE]?.trim()
+  const command = options.command?.trim() || recorded
+  if (!command)
+    throw new FixError(`Pass the failed command with --command, or record it automatically with \`shellman init\``)
+
+  const exitCode = options.exitCode !== undefined
+    ? parseExitCode(options.exitCode, '--exit-code')
+    : options.command ? undefined : parseExitCode(process.env[LAST_STATUS_VARIABLE], LAST_STATUS_VARIABLE)
+
+  let stderr = options.stderr
+  if (options.stderrFile) {
+    try {
+      stderr = fs.readFileSync(options.stderrFile, 'utf-8')
+    }
+    catch (error) {
+      throw new FixError(`Could not read ${options.stderrFile}: ${(error as Error).message}`)
+    }
+  }
+  stderr = stderr?.trim()
+  if (stderr && stderr.length > MAX_STDERR_LENGTH)
+    stderr = `…${stderr.slice(-MAX_STDERR_LENGTH)}`
+
+  return { command, exitCode, stderr: stderr || undefined }
+}
+
+/**
+ * Build the chat messages that ask the provider to correct a failed command
+ * - A `fix` prompt template replaces the built-in system prompt
+ */
+export function buildFixMessages(
+  failed: FailedCommand,
+  info: EnvironmentInfo,
+  prompts?: PromptTemplates,
+): ChatMessage[] {
+  const user = [
+    `Command: ${failed.command}`,
+    failed.exitCode === undefined ? '' : `Exit code: ${failed.exitCode}`,
+    failed.stderr ? `Error output:\n${failed.stderr}` : 'No error output was captured.',
+  ].filter(Boolean).join('\n')
+
+  const system = buildSystemPrompt('fix', prompts, {
+    lines: [
+      'You fix shell commands that failed.',
+      'The command ran in this environment:',
+      ...describeEnvironment(info),
+      'Work out what went wrong from the command, its exit code and its error output, then suggest a corrected command.',
+      'Use syntax that works in this shell on this operating system, and prefer tools that are available.',
+    ],
+    format: [
+      'Reply with JSON only, in the form {"problem": "...", "command": "...", "explanation": "..."}.',
+      'The problem and the explanation are one short sentence each. Do not wrap the JSON in markdown.',
+    ],
+    info,
+    variables: {
+      text: user,
+      command: failed.command,
+      exitCode: failed.exitCode === undefined ? '' : String(failed.exitCode),
+      stderr: failed.stderr || '',
+    },
+  })
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: user },
+  ]
+}
+
+/**
+ * Turn a raw model reply into a fix
+ * - A reply that is not JSON is taken as the corrected command with no diagnosis
+ */
+export function parseFix(raw: string): CommandFix {
+  const parsed = parseJsonReply(raw)
+  if (!parsed || typeof parsed.command !== 'string')
+    return { command: stripCodeFence(raw), problem: '', raw }
+
+  return {
+    command: parsed.command.trim(),
+    problem: typeof parsed.problem === 'string' ? parsed.problem : '',
+    explanation: typeof parsed.explanation === 'string' ? parsed.explanation : undefined,
+    raw,
+  }
+}
+
+/**
+ * Ask the configured provider what went wrong with a command and how to correct it
+ */
+export async function fixCommand(
+  failed: FailedCommand,
+  info: EnvironmentInfo,
+  config: ShellManConfig,
+  options: CompletionOptions = {},
+): Promise<CommandFix> {
+  const messages = buildFixMessages(failed, info, config.PROMPT_TEMPLATES)
+  // The failed command, exit code and error output together are the prompt
+  const cacheKey = getCacheKey('fix', messages[1].content, info, config)
+  const raw = await requestCompletion(config, messages, { ...options, cacheKey })
+  const fix = parseFix(raw)
+
+  if (!fix.command)
+    throw new GenerationError('Provider returned an empty command')
+
+  return fix
+}
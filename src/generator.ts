@@ -0,0 +1,339 @@
+import { setTimeout as sleep } from 'node:timers/promises'
+import { getCacheKey, readCachedReply, writeCachedReply } from './cache'
+import { describeEnvironment } from './environment'
+import { createRedactor, redactMessages } from './privacy'
+import { buildSystemPrompt } from './prompts'
+import { ProviderError, getProvider } from './providers'
+import type { ChatMessage, EnvironmentInfo, GeneratedCommand, PromptTemplates, ProviderRequest, ShellManConfig } from './types'
+
+// First retry delay, doubled on every further attempt
+const RETRY_BASE_DELAY_MS = 1000
+// Upper bound for any single wait, including one requested through Retry-After
+const RETRY_MAX_DELAY_MS = 30000
+
+export interface CompletionOptions {
+  // Aborts the request, for example when the user presses Ctrl-C
+  signal?: AbortSignal
+  // Streams the reply when set, called with each chunk and the reply so far
+  onToken?: (token: string, reply: string) => void
+  // Called before waiting to retry a rate limited or failed request
+  onRetry?: (error: ProviderError, attempt: number, delayMs: number) => void
+  // Response cache entry for the request, set by the generate, explain and fix functions
+  cacheKey?: string
+  // Ignore a cached reply, the new reply is still stored
+  refreshCache?: boolean
+}
+
+/**
+ * Error raised when a command could not be generated
+ */
+export class GenerationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GenerationError'
+  }
+}
+
+/**
+ * Error raised when the user cancels an in-flight request
+ */
+export class CancelledError extends Error {
+  constructor(message = 'Request cancelled') {
+    super(message)
+    this.name = 'CancelledError'
+  }
+}
+
+/**
+ * Build the chat messages sent to the provider for a natural-language request
+ * - With a count above one, asks for that many distinct alternatives, best first
+ * - A `generate` prompt template replaces the built-in system prompt
+ */
+export function buildGenerationMessages(
+  text: string,
+  info: EnvironmentInfo,
+  count = 1,
+  prompts?: PromptTemplates,
+): ChatMessage[] {
+  const reply = count > 1
+    ? [
+        `Suggest ${count} different commands, best first, using different tools or approaches where possible, such as find and fd or sed and perl.`,
+        'Reply with JSON only, in the form {"candidates": [{"command": "...", "explanation": "..."}]}.',
+      ]
+    : ['Reply with JSON only, in the form {"command": "...", "explanation": "..."}.']
+
+  const system = buildSystemPrompt('generate', prompts, {
+    lines: [
+      count > 1 ? 'You translate natural-language requests into shell commands.' : 'You translate natural-language requests into a single shell command.',
+      'The command will run in this environment:',
+      ...describeEnvironment(info),
+      'Use syntax that works in this shell on this operating system, and prefer tools that are available.',
+    ],
+    format: [...reply, 'The explanation is one short sentence. Do not wrap the JSON in markdown.'],
+    info,
+    variables: { text, count: String(count) },
+  })
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: text },
+  ]
+}
+
+/**
+ * Strip an optional markdown code fence from a model reply
+ */
+export function stripCodeFence(raw: string): string {
+  const trimmed = raw.trim()
+  const fenced = trimmed.match(/```[\w-]*\n([\s\S]*?)```/)
+  return (fenced ? fenced[1] : trimmed).trim()
+}
+
+/**
+ * Parse a model reply that should be a JSON object or array, returning undefined when it is not
+ */
+export function parseJsonValue(raw: string): object | undefined {
+  try {
+    const parsed: unknown = JSON.parse(stripCodeFence(raw))
+    return parsed && typeof parsed === 'object' ? parsed : undefined
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * Check that a parsed JSON value is an object, so its fields can be read and checked one by one
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Parse a model reply that should be a JSON object, returning undefined when it is not
+ */
+export function parseJsonReply(raw: string): Record<string, unknown> | undefined {
+  const parsed = parseJsonValue(raw)
+  return isJsonObject(parsed) ? parsed : undefined
+}
+
+/**
+ * Read a string field from a JSON reply that is still streaming in
+ * - Returns the characters received so far, or undefined before the field starts
+ */
+export function readPartialJsonString(raw: string, field: string): string | undefined {
+  const start = raw.match(new RegExp(`"${field}"\\s*:\\s*"`))
+  if (start?.index === undefined)
+    return undefined
+
+  let value = ''
+  for (let index = start.index + start[0].length; index < raw.length; index++) {
+    const char = raw[index]
+    if (char === '"')
+      break
+    if (char !== '\\') {
+      value += char
+      continue
+    }
+    const escaped = raw[++index]
+    if (escaped === undefined)
+      break
+    if (escaped === 'u') {
+      const code = raw.slice(index + 1, index + 5)
+      if (code.length < 4)
+        break
+      value += String.fromCharCode(Number.parseInt(code, 16))
+      index += 4
+      continue
+    }
+    value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escaped] ?? escaped
+  }
+  return value
+}
+
+/**
+ * Extract the command and explanation from a raw model reply
+ * - Accepts plain JSON, JSON inside a code fence, a bare code fence or plain text
+ */
+export function parseGeneratedCommand(raw: string): GeneratedCommand {
+  const parsed = parseJsonReply(raw)
+  if (parsed && typeof parsed.command === 'string') {
+    return {
+      command: parsed.command.trim(),
+      explanation: typeof parsed.explanation === 'string' ? parsed.explanation : undefined,
+      raw,
+    }
+  }
+
+  // Not JSON, fall back to treating the reply as the command itself
+  return { command: stripCodeFence(raw), raw }
+}
+
+function isRetryable(error: unknown): error is ProviderError {
+  return error instanceof ProviderError && error.status !== undefined && (error.status === 429 || error.status >= 500)
+}
+
+// Exponential backoff with jitter, unless the server asked for a specific delay
+function getRetryDelay(error: ProviderError, attempt: number): number {
+  const delay = error.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() * 0.5)
+  return Math.min(delay, RETRY_MAX_DELAY_MS)
+}
+
+/**
+ * Extract several alternatives from a raw model reply, dropping duplicates
+ * - Commands that only differ in whitespace count as duplicates
+ */
+export function parseGeneratedCandidates(raw: string): GeneratedCommand[] {
+  const parsed = parseJsonValue(raw)
+  const entries: unknown[] = Array.isArray(parsed) ? parsed : isJsonObject(parsed) && Array.isArray(parsed.candidates) ? parsed.candidates : []
+  const candidates = entries
+    .filter(isJsonObject)
+    .filter(entry => typeof entry.command === 'string' && entry.command.trim())
+    .map(entry => ({
+      command: String(entry.command).trim(),
+      explanation: typeof entry.explanation === 'string' ? entry.explanation : undefined,
+      raw,
+    }))
+
+  const seen = new Set<string>()
+  const unique = candidates.filter((candidate) => {
+    const key = candidate.command.replace(/\s+/g, ' ')
+    if (seen.has(key))
+      return false
+    seen.add(key)
+    return true
+  })
+
+  // A model that ignored the format still gave one usable answer
+  if (unique.length === 0) {
+    const single = parseGeneratedCommand(raw)
+    return single.command ? [single] : []
+  }
+  return unique
+}
+
+/**
+ * Send chat messages to the configured provider and return the raw reply
+ * - With REDACT_PROMPTS on, secrets, home paths, user and host names are replaced before sending and restored in the reply
+ * - With a cache key, a reply younger than CACHE_TTL seconds is returned without a request, cached replies keep their placeholders
+ * - Each attempt is limited to REQUEST_TIMEOUT seconds, including a streamed reply
+ * - Rate limits and server errors are retried up to REQUEST_RETRIES times, but never once a reply has started streaming
+ * - Aborting `signal` raises CancelledError, also while waiting to retry
+ */
+export async function requestCompletion(
+  config: ShellManConfig,
+  messages: ChatMessage[],
+  options: CompletionOptions = {},
+): Promise<string> {
+  const redactor = createRedactor(config)
+  const outbound = redactMessages(redactor, messages)
+  // Replies are JSON, so restored values are escaped unless the model answered in plain text
+  const restore = (reply: string) => redactor.restore(reply, parseJsonValue(reply) !== undefined)
+
+  const useCache = Boolean(options.cacheKey) && config.CACHE_TTL > 0
+  if (useCache && !options.refreshCache) {
+    const cached = readCachedReply(options.cacheKey!, config.CACHE_TTL)
+    if (cached !== undefined) {
+      options.onToken?.(cached, restore(cached))
+      return restore(cached)
+    }
+  }
+
+  const onToken = options.onToken
+  const reply = await requestProvider(config, outbound, {
+    ...options,
+    onToken: onToken && ((token, partial) => onToken(token, redactor.restore(partial, true))),
+  })
+  if (useCache)
+    writeCachedReply(options.cacheKey!, reply, config)
+  return restore(reply)
+}
+
+async function requestProvider(
+  config: ShellManConfig,
+  messages: ChatMessage[],
+  options: CompletionOptions,
+): Promise<string> {
+  const provider = getProvider(config.API_PROVIDER)
+  if (!provider)
+    throw new GenerationError(`Unknown provider "${config.API_PROVIDER}"`)
+
+  for (let attempt = 0; ; attempt++) {
+    const timeout = AbortSignal.timeout(config.REQUEST_TIMEOUT * 1000)
+    const request: ProviderRequest = {
+      model: config.API_MODEL,
+      messages,
+      apiKey: config.API_KEY,
+      endpoint: config.API_CUSTOM_ENDPOINT,
+      signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout,
+    }
+
+    let reply = ''
+    try {
+      if (!options.onToken)
+        return await provider.complete(request)
+
+      for await (const token of provider.stream(request)) {
+        reply += token
+        options.onToken(token, reply)
+      }
+      return reply
+    }
+    catch (error) {
+      if (options.signal?.aborted)
+        throw new CancelledError()
+      if (timeout.aborted)
+        throw new GenerationError(`${provider.name} did not respond within ${config.REQUEST_TIMEOUT} seconds, raise REQUEST_TIMEOUT or pass --timeout`)
+      if (reply || attempt >= config.REQUEST_RETRIES || !isRetryable(error))
+        throw error
+
+      const delayMs = getRetryDelay(error, attempt)
+      options.onRetry?.(error, attempt + 1, delayMs)
+      try {
+        await sleep(delayMs, undefined, { signal: options.signal })
+      }
+      catch {
+        throw new CancelledError()
+      }
+    }
+  }
+}
+
+/**
+ * Generate a shell command for the given request and environment
+ */
+export async function generateCommand(
+  text: string,
+  info: EnvironmentInfo,
+  config: ShellManConfig,
+  options: CompletionOptions = {},
+): Promise<GeneratedCommand> {
+  const messages = buildGenerationMessages(text, info, 1, config.PROMPT_TEMPLATES)
+  const raw = await requestCompletion(config, messages, { ...options, cacheKey: getCacheKey('command', text, info, config) })
+  const result = parseGeneratedCommand(raw)
+
+  if (!result.command)
+    throw new GenerationError('Provider returned an empty command')
+
+  return result
+}
+
+/**
+ * Generate up to `count` distinct commands for the given request, best first
+ */
+export async function generateCandidates(
+  text: string,
+  info: EnvironmentInfo,
+  config: ShellManConfig,
+  count: number,
+  options: CompletionOptions = {},
+): Promise<GeneratedCommand[]> {
+  const cacheKey = getCacheKey(`candidates:${count}`, text, info, config)
+  const raw = await requestCompletion(config, buildGenerationMessages(text, info, count, config.PROMPT_TEMPLATES), { ...options, cacheKey })
+  const candidates = parseGeneratedCandidates(raw).slice(0, count)
+
+  if (candidates.length === 0)
+    throw new GenerationError('Provider returned no commands')
+
+  return candidates
+}
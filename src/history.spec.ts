@@ -0,0 +1,62 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import type { Mock } from 'bun:test'
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test'
+import { appendHistory, getHistoryPath, readHistory } from './history'
+
+const ENTRY = { prompt: 'list files', command: 'ls -la', provider: 'openai', model: 'gpt-4o', cwd: '/srv/app', shell: 'bash', executed: false }
+
+let home: string
+let homedir: Mock<typeof os.homedir>
+
+function lockPath(): string {
+  return `${getHistoryPath()}.lock`
+}
+
+function writeLock(content: string, ageMs: number) {
+  fs.mkdirSync(path.dirname(lockPath()), { recursive: true })
+  fs.writeFileSync(lockPath(), content)
+  const time = new Date(Date.now() - ageMs)
+  fs.utimesSync(lockPath(), time, time)
+}
+
+beforeEach(() => {
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'shellman-history-'))
+  homedir = spyOn(os, 'homedir').mockReturnValue(home)
+})
+
+afterEach(() => {
+  homedir.mockRestore()
+  fs.rmSync(home, { recursive: true, force: true })
+})
+
+describe('appendHistory', () => {
+  it('appends entries with an id and a timestamp', async () => {
+    const first = await appendHistory(ENTRY)
+    await appendHistory({ ...ENTRY, command: 'ls' })
+
+    expect(first.id).toHaveLength(8)
+    expect(readHistory().map(entry => entry.command)).toEqual(['ls -la', 'ls'])
+    expect(fs.existsSync(lockPath())).toBe(false)
+  })
+
+  it('takes over a lock left behind by a crashed process', async () => {
+    writeLock('1234:crashed', 60_000)
+
+    await appendHistory(ENTRY)
+
+    expect(readHistory()).toHaveLength(1)
+    expect(fs.existsSync(lockPath())).toBe(false)
+    expect(fs.readdirSync(path.dirname(lockPath())).filter(name => name.includes('.lock'))).toEqual([])
+  })
+
+  it('waits for a live lock instead of removing it', async () => {
+    writeLock('1234:live', 0)
+    setTimeout(() => fs.rmSync(lockPath(), { force: true }), 200)
+
+    await appendHistory(ENTRY)
+
+    expect(readHistory()).toHaveLength(1)
+  })
+})
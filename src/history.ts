@@ -0,0 +1,242 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as process from 'node:process'
+import { randomUUID } from 'node:crypto'
+import { logger } from './logger'
+import { ensureConfigDir, getConfigDir } from './config'
+import type { HistoryEntry } from './types'
+
+// How long to wait for another shellman process to release the lock
+const LOCK_TIMEOUT_MS = 5000
+// A lock older than this was left behind by a crashed process, it must be shorter than the timeout
+// so waiters take over a stale lock instead of giving up, the lock is only held for a single write
+const LOCK_STALE_MS = 2000
+
+/**
+ * Error raised when the history store cannot be accessed
+ */
+export class HistoryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'HistoryError'
+  }
+}
+
+/**
+ * Get the path to the append-only history file
+ */
+export function getHistoryPath(): string {
+  return path.join(getConfigDir(), 'history.jsonl')
+}
+
+function getHistoryLockPath(): string {
+  return `${getHistoryPath()}.lock`
+}
+
+// Move a stale lock out of the way without deleting one that replaced it in the meantime
+// - The lock is renamed to a name only this process uses, then its age is checked again
+// - A lock that turns out to be fresh is linked back, unless another process took the lock since
+function removeStaleLock(lockPath: string): void {
+  const movedPath = `${lockPath}.${process.pid}.${randomUUID()}`
+  try {
+    fs.renameSync(lockPath, movedPath)
+  }
+  catch {
+    // Released or already taken over by another waiter
+    return
+  }
+
+  try {
+    if (Date.now() - fs.statSync(movedPath).mtimeMs <= LOCK_STALE_MS)
+      fs.linkSync(movedPath, lockPath)
+  }
+  catch {
+    // A new lock is already in place, it is the one that counts
+  }
+  finally {
+    fs.rmSync(movedPath, { force: true })
+  }
+}
+
+// Remove the lock only while it still holds this process's token, a waiter may have taken it over
+function releaseLock(lockPath: string, token: string): void {
+  try {
+    if (fs.readFileSync(lockPath, 'utf-8') === token)
+      fs.rmSync(lockPath, { force: true })
+  }
+  catch {
+    // Already gone
+  }
+}
+
+/**
+ * Run a function while holding an exclusive lock on the history file
+ * - The lock is a file created with O_EXCL, so only one process can hold it at a time
+ * - It holds the owner's pid and a random token, a process only ever removes its own lock
+ */
+async function withHistoryLock<T>(fn: () => T): Promise<T> {
+  ensureConfigDir()
+  const lockPath = getHistoryLockPath()
+  const deadline = Date.now() + LOCK_TIMEOUT_MS
+  const token = `${process.pid}:${randomUUID()}`
+
+  while (true) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx')
+      fs.writeSync(fd, token)
+      fs.closeSync(fd)
+      break
+    }
+    catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST')
+        throw new HistoryError(`Unable to lock history file: ${(error as Error).message}`)
+
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+          removeStaleLock(lockPath)
+          continue
+        }
+      }
+      catch {
+        // The lock was released between the open and the stat, try again
+        continue
+      }
+
+      if (Date.now() > deadline)
+        throw new HistoryError(`Timed out waiting for history lock ${lockPath}`)
+      await new Promise(resolve => setTimeout(resolve, 25 + Math.random() * 25))
+    }
+  }
+
+  try {
+    return fn()
+  }
+  finally {
+    releaseLock(lockPath, token)
+  }
+}
+
+/**
+ * Append an entry to the history file and return it with its id and timestamp
+ */
+export async function appendHistory(
+  entry: Omit<HistoryEntry, 'id' | 'timestamp'>,
+): Promise<HistoryEntry> {
+  const record: HistoryEntry = {
+    id: randomUUID().slice(0, 8),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  }
+
+  await withHistoryLock(() => {
+    fs.appendFileSync(getHistoryPath(), `${JSON.stringify(record)}\n`, 'utf-8')
+  })
+
+  return record
+}
+
+/**
+ * Read all history entries, oldest first, skipping lines that cannot be parsed
+ */
+export function readHistory(): HistoryEntry[] {
+  let data: string
+  try {
+    data = fs.readFileSync(getHistoryPath(), 'utf-8')
+  }
+  catch {
+    return []
+  }
+
+  const entries: HistoryEntry[] = []
+  for (const line of data.split('\n')) {
+    if (!line.trim())
+      continue
+    try {
+      entries.push(JSON.parse(line) as HistoryEntry)
+    }
+    catch {
+      // A partially written line from an interrupted process, ignore it
+    }
+  }
+  return entries
+}
+
+/**
+ * Find entries whose prompt or command contains the query, newest first
+ */
+export function searchHistory(query: string): HistoryEntry[] {
+  const needle = query.toLowerCase()
+  return readHistory()
+    .filter(entry => entry.prompt.toLowerCase().includes(needle) || entry.command.toLowerCase().includes(needle))
+    .reverse()
+}
+
+/**
+ * Look up a single entry by id or unique id prefix
+ */
+export function getHistoryEntry(id: string): HistoryEntry | undefined {
+  const matches = readHistory().filter(entry => entry.id.startsWith(id))
+  if (matches.length > 1)
+    throw new HistoryError(`History id "${id}" is ambiguous, use more characters`)
+  return matches[0]
+}
+
+/**
+ * Find the most recent run of a command that failed, so a fix can link to it
+ * - When an exit code is given, only a run that ended with it matches
+ */
+export function findFailedEntry(command: string, exitCode?: number): HistoryEntry | undefined {
+  return readHistory().reverse().find(entry =>
+    entry.command === command
+    && entry.executed
+    && entry.exitCode !== 0
+    && (exitCode === undefined || entry.exitCode === exitCode))
+}
+
+/**
+ * Remove every history entry
+ */
+export async function clearHistory(): Promise<void> {
+  await withHistoryLock(() => {
+    fs.writeFileSync(getHistoryPath(), '', 'utf-8')
+  })
+}
+
+function formatStatus(entry: HistoryEntry): string {
+  if (!entry.executed)
+    return 'not run'
+  return `exit ${entry.exitCode ?? '?'}`
+}
+
+/**
+ * Print history entries as a compact list
+ */
+export function displayHistoryEntries(entries: HistoryEntry[]): void {
+  if (entries.length === 0) {
+    logger.info.tag('History').data('').message('No history entries found').print()
+    return
+  }
+
+  for (const entry of entries) {
+    const link = entry.fixOf ? ` fixes ${entry.fixOf}:` : ''
+    logger.info.tag(entry.id).data(entry.command).message(`${entry.timestamp} (${formatStatus(entry)})${link} ${entry.prompt}`).print()
+  }
+}
+
+/**
+ * Print every field of a single history entry
+ */
+export function displayHistoryEntry(entry: HistoryEntry): void {
+  const fixes = readHistory().filter(other => other.fixOf === entry.id).map(other => other.id)
+  logger.info.tag(`History ${entry.id}`).data({
+    Time: entry.timestamp,
+    Prompt: entry.prompt,
+    Command: entry.command,
+    Provider: `${entry.provider} (${entry.model})`,
+    Directory: entry.cwd,
+    Shell: entry.shell,
+    Status: formatStatus(entry),
+    ...(entry.fixOf ? { Fixes: entry.fixOf } : {}),
+    ...(fixes.length > 0 ? { 'Fixed by': fixes.join(', ') } : {}),
+  }).appendDivider().print()
+}
@@ -0,0 +1,245 @@
+import { LAST_COMMAND_VARIABLE, LAST_STATUS_VARIABLE } from './fix'
+import type { EnvironmentInfo } from './types'
+
+// Shells with a line editor that a widget can hook into
+export const INTEGRATION_SHELLS = ['bash', 'zsh', 'fish', 'powershell'] as const
+
+export type IntegrationShell = typeof INTEGRATION_SHELLS[number]
+
+// Key bound when --key is not given, the line editors only use it to abort a search or a partial key sequence
+export const DEFAULT_WIDGET_KEY = 'ctrl-g'
+
+/**
+ * Error raised for a shell or key binding the widgets do not support
+ */
+export class IntegrationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'IntegrationError'
+  }
+}
+
+// The widget runs shellman with the line as the request and reads the bare command from stdout
+const GENERATE = 'shellman ask --format plain --text'
+
+const FAILURE_MESSAGE = 'shellman: no command generated, run shellman directly to see why'
+
+/**
+ * Map a detected shell name to the integration for it, `pwsh` and `powershell` share one
+ */
+export function toIntegrationShell(shellName: string): IntegrationShell | undefined {
+  const name = shellName.toLowerCase().replace(/\.exe$/, '')
+  if (name === 'pwsh')
+    return 'powershell'
+  return (INTEGRATION_SHELLS as readonly string[]).includes(name) ? name as IntegrationShell : undefined
+}
+
+/**
+ * Pick the shell to integrate with from the detected environment
+ */
+export function detectIntegrationShell(info: EnvironmentInfo): IntegrationShell {
+  const shell = toIntegrationShell(info.shellName)
+  if (!shell)
+    throw new IntegrationError(`No widget for ${info.shellName}, pass one of ${INTEGRATION_SHELLS.join(', ')}`)
+  return shell
+}
+
+// Key bindings are given as ctrl-<letter>, each shell spells them differently
+function parseKey(key: string): string {
+  const match = key.trim().toLowerCase().match(/^ctrl-([a-z])$/)
+  if (!match)
+    throw new IntegrationError(`Unsupported key "${key}", use ctrl-<letter> such as ${DEFAULT_WIDGET_KEY}`)
+  return match[1]
+}
+
+// bash and zsh share the wrapper that hands the recorded failure to \`shellman fix\` alone
+function posixWrapper(): string {
+  return `shellman() {
+  if [[ "$1" == fix ]]; then
+    ${LAST_COMMAND_VARIABLE}="$__shellman_last_command" ${LAST_STATUS_VARIABLE}="$__shellman_last_status" command shellman "$@"
+  else
+    command shellman "$@"
+  fi
+}
+`
+}
+
+function bashScript(letter: string): string {
+  return `# shellman widget for bash 4+, add to ~/.bashrc: eval "$(shellman init bash)"
+__shellman_widget() {
+  [[ -z "$READLINE_LINE" ]] && return
+  local generated
+  generated="$(${GENERATE} "$READLINE_LINE" 2>/dev/null)"
+  if [[ -z "$generated" ]]; then
+    echo "${FAILURE_MESSAGE}" >&2
+    return
+  fi
+  READLINE_LINE="$generated"
+  READLINE_POINT=\${#READLINE_LINE}
+}
+bind -x '"\\C-${letter}": __shellman_widget'
+
+# Remember the last failed command and its exit code for \`shellman fix\`, its error output is not captured
+# Both stay in unexported variables, only \`shellman fix\` gets them in its environment
+__shellman_record() {
+  local exit_status=$? last
+  if [[ $exit_status -ne 0 ]]; then
+    read -r _ last <<< "$(HISTTIMEFORMAT= builtin history 1)"
+    if [[ -n "$last" && "$last" != shellman* ]]; then
+      __shellman_last_command="$last"
+      __shellman_last_status=$exit_status
+    fi
+  fi
+  return $exit_status
+}
+if [[ "$PROMPT_COMMAND" != *__shellman_record* ]]; then
+  PROMPT_COMMAND="__shellman_record\${PROMPT_COMMAND:+;$PROMPT_COMMAND}"
+fi
+${posixWrapper()}`
+}
+
+function zshScript(letter: string): string {
+  return `# shellman widget for zsh, add to ~/.zshrc: eval "$(shellman init zsh)"
+__shellman_widget() {
+  [[ -z "$BUFFER" ]] && return
+  local generated
+  generated="$(${GENERATE} "$BUFFER" 2>/dev/null)"
+  if [[ -z "$generated" ]]; then
+    zle -M "${FAILURE_MESSAGE}"
+    return
+  fi
+  BUFFER="$generated"
+  CURSOR=\${#BUFFER}
+}
+zle -N __shellman_widget
+bindkey '^${letter.toUpperCase()}' __shellman_widget
+
+# Remember the last failed command and its exit code for \`shellman fix\`, its error output is not captured
+# Both stay in unexported variables, only \`shellman fix\` gets them in its environment
+__shellman_preexec() {
+  __shellman_command="$1"
+}
+__shellman_precmd() {
+  local exit_status=$?
+  if [[ $exit_status -ne 0 && -n "$__shellman_command" && "$__shellman_command" != shellman* ]]; then
+    __shellman_last_command="$__shellman_command"
+    __shellman_last_status=$exit_status
+  fi
+  __shellman_command=
+}
+autoload -Uz add-zsh-hook
+add-zsh-hook preexec __shellman_preexec
+add-zsh-hook precmd __shellman_precmd
+${posixWrapper()}`
+}
+
+function fishScript(letter: string): string {
+  return `# shellman widget for fish, add to ~/.config/fish/config.fish: shellman init fish | source
+function __shellman_widget
+    set -l request (commandline | string collect)
+    if test -z "$request"
+        return
+    end
+    set -l generated (${GENERATE} "$request" 2>/dev/null | string collect)
+    if test -z "$generated"
+        echo
+        echo "${FAILURE_MESSAGE}" >&2
+        commandline -f repaint
+        return
+    end
+    commandline --replace -- "$generated"
+    commandline -f repaint
+end
+bind \\c${letter} __shellman_widget
+if bind -M insert >/dev/null 2>&1
+    bind -M insert \\c${letter} __shellman_widget
+end
+
+# Remember the last failed command and its exit code for \`shellman fix\`, its error output is not captured
+# Both stay in unexported variables, only \`shellman fix\` gets them in its environment
+function __shellman_record --on-event fish_postexec
+    set -l exit_status $status
+    if test $exit_status -ne 0; and not string match -q 'shellman*' -- $argv[1]
+        set -g __shellman_last_command $argv[1]
+        set -g __shellman_last_status $exit_status
+    end
+end
+function shellman --wraps shellman
+    if test "$argv[1]" = fix
+        set -lx ${LAST_COMMAND_VARIABLE} $__shellman_last_command
+        set -lx ${LAST_STATUS_VARIABLE} $__shellman_last_status
+        command shellman $argv
+    else
+        command shellman $argv
+    end
+end
+`
+}
+
+function powershellScript(letter: string): string {
+  return `# shellman widget for PowerShell with PSReadLine, add to $PROFILE: shellman init powershell | Out-String | Invoke-Expression
+Set-PSReadLineKeyHandler -Chord 'Ctrl+${letter}' -BriefDescription 'shellman' -Description 'Replace the line with a command generated by shellman' -ScriptBlock {
+    $line = $null
+    $cursor = $null
+    [Microsoft.PowerShell.PSConsoleReadLine]::GetBufferState([ref]$line, [ref]$cursor)
+    if ([string]::IsNullOrWhiteSpace($line)) { return }
+    $generated = (${GENERATE} $line 2>$null) -join [Environment]::NewLine
+    if ([string]::IsNullOrWhiteSpace($generated)) {
+        [Microsoft.PowerShell.PSConsoleReadLine]::Ding()
+        return
+    }
+    [Microsoft.PowerShell.PSConsoleReadLine]::Replace(0, $line.Length, $generated)
+}
+
+# Remember the last failed command and its exit code for \`shellman fix\`, its error output is not captured
+# Both stay in unexported variables, only \`shellman fix\` gets them in its environment
+if (-not $global:__ShellmanPrompt) {
+    $global:__ShellmanPrompt = $function:prompt
+    function global:prompt {
+        $succeeded = $?
+        $exitCode = $global:LASTEXITCODE
+        $last = Get-History -Count 1
+        if (-not $succeeded -and $last -and $last.CommandLine -notlike 'shellman*') {
+            $global:__ShellmanLastCommand = $last.CommandLine
+            $global:__ShellmanLastStatus = if ($exitCode) { $exitCode } else { 1 }
+        }
+        $global:LASTEXITCODE = $exitCode
+        & $global:__ShellmanPrompt
+    }
+}
+function global:shellman {
+    $application = Get-Command shellman -CommandType Application | Select-Object -First 1
+    if ($args.Count -gt 0 -and $args[0] -eq 'fix') {
+        $env:${LAST_COMMAND_VARIABLE} = $global:__ShellmanLastCommand
+        $env:${LAST_STATUS_VARIABLE} = $global:__ShellmanLastStatus
+        try { & $application @args }
+        finally {
+            $env:${LAST_COMMAND_VARIABLE} = $null
+            $env:${LAST_STATUS_VARIABLE} = $null
+        }
+    }
+    else {
+        & $application @args
+    }
+}
+`
+}
+
+const SCRIPTS: Record<IntegrationShell, (letter: string) => string> = {
+  bash: bashScript,
+  zsh: zshScript,
+  fish: fishScript,
+  powershell: powershellScript,
+}
+
+/**
+ * Build the snippet that binds a key to replace the current line with a generated command
+ * - The command is only put on the line for review, it never runs on its own
+ * - A prompt hook records the last failed command and its exit code in shell variables,
+ *   a `shellman` function passes them to `shellman fix` only, they are never exported to other programs
+ * - Error output is not recorded, teeing stderr would take the terminal away from interactive programs,
+ *   so `shellman fix` asks for it instead
+ */
+export function getIntegrationScript(shell: IntegrationShell, key = DEFAULT_WIDGET_KEY): string {
+  return SCRIPTS[shell](parseKey(key))
+}
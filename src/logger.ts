@@ -0,0 +1,113 @@
+import process from 'node:process'
+import { logger as baseLogger } from '@shermant/logger'
+
+// Config fields whose values are secrets wherever they appear in logged objects
+const SECRET_FIELDS = new Set(['API_KEY', 'API_KEYS'])
+
+// Credential references name where a key lives, they are not secrets themselves
+const CREDENTIAL_REFERENCE = /^(?:env|cmd|store):/
+
+// Secrets resolved during this run, replaced in every string passed to the logger
+const secrets = new Set<string>()
+
+// Set by --format json|plain, so stdout only carries the result
+let logToStderr = false
+
+/**
+ * Send everything the logger prints to stderr instead of stdout
+ */
+export function sendLogsToStderr(): void {
+  logToStderr = true
+}
+
+/**
+ * Register a resolved secret so it is never printed
+ * - Very short values are ignored, replacing them would mangle unrelated output
+ */
+export function registerSecret(secret: string): void {
+  if (secret.length >= 4)
+    secrets.add(secret)
+}
+
+/**
+ * Replace every registered secret in a string
+ */
+export function redact(text: string): string {
+  let result = text
+  for (const secret of secrets)
+    result = result.split(secret).join('****')
+  return result
+}
+
+/**
+ * Hide all but the last four characters of a secret, leaving credential references readable
+ */
+export function maskSecret(value: string): string {
+  if (!value || CREDENTIAL_REFERENCE.test(value))
+    return value
+  return `****${value.slice(-4)}`
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object')
+    return false
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+function redactValue(value: unknown, masked = false): unknown {
+  if (typeof value === 'string')
+    return masked ? maskSecret(value) : redact(value)
+
+  if (value instanceof Error) {
+    const copy = new Error(redact(value.message))
+    copy.name = value.name
+    copy.stack = value.stack && redact(value.stack)
+    return copy
+  }
+
+  if (Array.isArray(value))
+    return value.map(item => redactValue(item, masked))
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, redactValue(item, masked || SECRET_FIELDS.has(key))]))
+  }
+
+  return value
+}
+
+// The logger writes to stdout itself, so stdout is pointed at stderr for the duration of a call
+function callWithLogStream<T>(call: () => T): T {
+  if (!logToStderr)
+    return call()
+  const write = process.stdout.write
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write
+  try {
+    return call()
+  }
+  finally {
+    process.stdout.write = write
+  }
+}
+
+// Redact the arguments of every call on the logger and on the builders it returns
+function withRedaction<T extends object>(target: T): T {
+  return new Proxy(target, {
+    get(object, property) {
+      const value = Reflect.get(object, property)
+      if (typeof value === 'function') {
+        return (...args: unknown[]) => {
+          const result = callWithLogStream(() => value.apply(object, args.map(arg => redactValue(arg))))
+          return result && typeof result === 'object' ? withRedaction(result) : result
+        }
+      }
+      return value && typeof value === 'object' ? withRedaction(value) : value
+    },
+  })
+}
+
+/**
+ * The shared logger, with API keys and registered secrets removed from all output
+ */
+export const logger = withRedaction(baseLogger)
@@ -0,0 +1,100 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { ensureConfigDir, getConfigDir } from './config'
+import { CancelledError } from './generator'
+import { getProvider } from './providers'
+import type { ModelCatalog, ShellManConfig } from './types'
+
+// How long a fetched model list is used before the provider is asked again
+const MODEL_CATALOG_TTL_MS = 24 * 60 * 60 * 1000
+// Listing models is a small request, it should not wait as long as a completion
+const MODEL_LIST_TIMEOUT_MS = 15000
+
+interface CachedModelList {
+  fetchedAt: string
+  // Lists from a custom endpoint only apply to that endpoint
+  endpoint?: string
+  models: string[]
+}
+
+type ModelCacheFile = Record<string, CachedModelList>
+
+/**
+ * Get the path to the cached model lists of all providers
+ */
+export function getModelCachePath(): string {
+  return path.join(getConfigDir(), 'models.json')
+}
+
+function readModelCache(): ModelCacheFile {
+  try {
+    return JSON.parse(fs.readFileSync(getModelCachePath(), 'utf-8')) as ModelCacheFile
+  }
+  catch {
+    return {}
+  }
+}
+
+function writeModelCache(cache: ModelCacheFile): void {
+  try {
+    ensureConfigDir()
+    fs.writeFileSync(getModelCachePath(), JSON.stringify(cache, null, 2), 'utf-8')
+  }
+  catch {
+    // The list is fetched again next time
+  }
+}
+
+function getCachedList(providerName: string, endpoint?: string): CachedModelList | undefined {
+  const cached = readModelCache()[providerName]
+  return cached && cached.endpoint === endpoint && Array.isArray(cached.models) ? cached : undefined
+}
+
+/**
+ * List the models known for a provider without a network request
+ * - The last fetched list when there is one, otherwise the built-in fallback
+ */
+export function getKnownModels(providerName: string, endpoint?: string): string[] {
+  return getCachedList(providerName, endpoint)?.models || getProvider(providerName)?.models || []
+}
+
+/**
+ * Get the models of the configured provider
+ * - A list fetched within the last day is reused unless `refresh` is set
+ * - When the provider cannot be reached, the last fetched list or the built-in one is returned with the error
+ */
+export async function getModelCatalog(
+  config: ShellManConfig,
+  { refresh = false, signal }: { refresh?: boolean, signal?: AbortSignal } = {},
+): Promise<ModelCatalog> {
+  const providerName = config.API_PROVIDER
+  const provider = getProvider(providerName)
+  const endpoint = config.API_CUSTOM_ENDPOINT
+  const cached = getCachedList(providerName, endpoint)
+  const fallback = (error?: string): ModelCatalog => cached
+    ? { provider: providerName, models: cached.models, source: 'cache', fetchedAt: cached.fetchedAt, error }
+    : { provider: providerName, models: provider?.models || [], source: 'builtin', error }
+
+  if (!provider?.listModels)
+    return fallback(provider ? undefined : `Unknown provider "${providerName}"`)
+  if (cached && !refresh && Date.now() - Date.parse(cached.fetchedAt) < MODEL_CATALOG_TTL_MS)
+    return fallback()
+
+  try {
+    const timeout = AbortSignal.timeout(MODEL_LIST_TIMEOUT_MS)
+    const models = await provider.listModels({
+      apiKey: config.API_KEY,
+      endpoint,
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    })
+    const unique = [...new Set(models)].sort()
+    const entry: CachedModelList = { fetchedAt: new Date().toISOString(), endpoint, models: unique }
+    writeModelCache({ ...readModelCache(), [providerName]: entry })
+    return { provider: providerName, models: unique, source: 'provider', fetchedAt: entry.fetchedAt }
+  }
+  catch (error) {
+    if (signal?.aborted)
+      throw new CancelledError()
+    return fallback((error as Error).message)
+  }
+}
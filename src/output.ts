@@ -0,0 +1,186 @@
+import process from 'node:process'
+import { redact } from './logger'
+import { createRedactor, redactMessages } from './privacy'
+import { analyzeCommand } from './safety'
+import { analyzeTranslation } from './translate'
+import type {
+  AssessedStep,
+  CandidateOutput,
+  ChatMessage,
+  CommandCandidate,
+  CommandExplanation,
+  CommandOutput,
+  CommandTranslation,
+  DryRunPreview,
+  EnvironmentInfo,
+  ExplanationOutput,
+  OutputFormat,
+  OutputTiming,
+  PayloadOutput,
+  PlanOutput,
+  PromptName,
+  PromptRenderOutput,
+  PromptTemplates,
+  ShellDialect,
+  ShellManConfig,
+  TranslationOutput,
+} from './types'
+import { OUTPUT_FORMATS } from './types'
+
+/**
+ * Check that a --format value is one of the supported formats
+ */
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value)
+}
+
+/**
+ * Check whether a format is meant for other programs
+ * - Machine formats never prompt or run anything, and keep stdout for the result
+ */
+export function isMachineFormat(format: OutputFormat): boolean {
+  return format !== 'pretty'
+}
+
+function toCandidateOutput({ raw: _raw, ...candidate }: CommandCandidate): CandidateOutput {
+  return candidate
+}
+
+/**
+ * Collect the result of `shellman ask` for --format json, the first candidate is the chosen command
+ */
+export function buildCommandOutput(
+  prompt: string,
+  candidates: CommandCandidate[],
+  environment: EnvironmentInfo,
+  config: ShellManConfig,
+  timing: OutputTiming,
+  preview?: DryRunPreview,
+): CommandOutput {
+  const [chosen] = candidates
+  return {
+    prompt,
+    command: chosen.command,
+    explanation: chosen.explanation,
+    risk: chosen.risk,
+    missingPrograms: chosen.missingPrograms,
+    candidates: candidates.map(toCandidateOutput),
+    ...(preview ? { preview } : {}),
+    environment,
+    provider: config.API_PROVIDER,
+    model: config.API_MODEL,
+    timing,
+  }
+}
+
+/**
+ * Collect the result of `shellman explain` for --format json
+ */
+export function buildExplanationOutput(
+  command: string,
+  { raw: _raw, ...explanation }: CommandExplanation,
+  environment: EnvironmentInfo,
+  config: ShellManConfig,
+  timing: OutputTiming,
+): ExplanationOutput {
+  return {
+    command,
+    explanation,
+    risk: analyzeCommand(command, environment),
+    environment,
+    provider: config.API_PROVIDER,
+    model: config.API_MODEL,
+    timing,
+  }
+}
+
+/**
+ * Collect the result of `shellman translate` for --format json
+ */
+export function buildTranslationOutput(
+  source: string,
+  { raw: _raw, ...translation }: CommandTranslation,
+  to: ShellDialect,
+  environment: EnvironmentInfo,
+  config: ShellManConfig,
+  timing: OutputTiming,
+): TranslationOutput {
+  return {
+    source,
+    command: translation.command,
+    from: translation.from,
+    to,
+    notes: translation.notes,
+    risk: analyzeTranslation(translation.command, to, environment),
+    environment,
+    provider: config.API_PROVIDER,
+    model: config.API_MODEL,
+    timing,
+  }
+}
+
+/**
+ * Collect the result of `shellman script` for --format json
+ */
+export function buildPlanOutput(
+  prompt: string,
+  summary: string | undefined,
+  steps: AssessedStep[],
+  script: string,
+  environment: EnvironmentInfo,
+  config: ShellManConfig,
+  timing: OutputTiming,
+): PlanOutput {
+  return {
+    prompt,
+    summary,
+    steps,
+    script,
+    environment,
+    provider: config.API_PROVIDER,
+    model: config.API_MODEL,
+    timing,
+  }
+}
+
+/**
+ * Collect the result of `shellman prompt render` for --format json
+ */
+export function buildPromptRenderOutput(
+  name: PromptName,
+  prompts: PromptTemplates,
+  messages: ChatMessage[],
+): PromptRenderOutput {
+  const template = prompts.templates[name]
+  return {
+    name,
+    template: template?.path,
+    layer: template?.layer,
+    rules: prompts.rules,
+    ruleFiles: prompts.ruleFiles,
+    messages,
+  }
+}
+
+/**
+ * Collect what --show-payload prints, redacted exactly as requestCompletion() would send it
+ */
+export function buildPayloadOutput(config: ShellManConfig, messages: ChatMessage[]): PayloadOutput {
+  const redactor = createRedactor(config)
+  return {
+    provider: config.API_PROVIDER,
+    model: config.API_MODEL,
+    endpoint: config.API_CUSTOM_ENDPOINT,
+    messages: redactMessages(redactor, messages),
+    redactions: redactor.redactions(),
+  }
+}
+
+/**
+ * Print a result on stdout, as one JSON object or as the given plain text
+ * - Registered secrets are redacted here as well, this output bypasses the logger
+ */
+export function printResult(format: OutputFormat, output: unknown, plain: string): void {
+  const text = format === 'json' ? JSON.stringify(output, null, 2) : plain
+  process.stdout.write(`${redact(text)}\n`)
+}
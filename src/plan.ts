@@ -0,0 +1,220 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { getCacheKey } from './cache'
+import { describeCandidate } from './candidates'
+import { describeEnvironment } from './environment'
+import type { CompletionOptions } from './generator'
+import { GenerationError, isJsonObject, parseJsonReply, requestCompletion, stripCodeFence } from './generator'
+import { logger } from './logger'
+import { buildSystemPrompt } from './prompts'
+import type { AssessedStep, ChatMessage, CommandPlan, EnvironmentInfo, PlanStep, PromptTemplates, ShellManConfig, StepStatus } from './types'
+
+// More steps than this is a project, not a request
+const MAX_PLAN_STEPS = 20
+
+const STATUS_MARKS: Record<StepStatus, string> = {
+  pending: '[ ]',
+  done: '[x]',
+  failed: '[!]',
+  skipped: '[-]',
+}
+
+/**
+ * Error raised when a plan cannot be saved as a script
+ */
+export class PlanError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PlanError'
+  }
+}
+
+// How a script for one shell starts, marks comments and stops on a failed step
+interface ScriptDialect {
+  extension: string
+  header: (info: EnvironmentInfo) => string[]
+  comment: string
+  // Lines after each step, empty when the header already stops on errors
+  afterStep: string[]
+}
+
+const POSIX_DIALECT: ScriptDialect = {
+  extension: '.sh',
+  header: info => [`#!${info.shellPath}`, 'set -e'],
+  comment: '#',
+  afterStep: [],
+}
+
+const SCRIPT_DIALECTS: Record<string, ScriptDialect> = {
+  fish: {
+    extension: '.fish',
+    header: info => [`#!${info.shellPath}`],
+    comment: '#',
+    afterStep: ['or exit $status'],
+  },
+  powershell: {
+    extension: '.ps1',
+    // A shebang is only meaningful for pwsh outside Windows, PowerShell reads it as a comment
+    header: info => [...(path.isAbsolute(info.shellPath) ? [`#!${info.shellPath}`] : []), '$ErrorActionPreference = \'Stop\''],
+    comment: '#',
+    afterStep: ['if ($LASTEXITCODE) { exit $LASTEXITCODE }'],
+  },
+  cmd: {
+    extension: '.bat',
+    header: () => ['@echo off'],
+    comment: 'REM',
+    afterStep: ['if errorlevel 1 exit /b %errorlevel%'],
+  },
+}
+
+function getScriptDialect(info: EnvironmentInfo): ScriptDialect {
+  const name = info.shellName.toLowerCase().replace(/\.exe$/, '')
+  return SCRIPT_DIALECTS[name === 'pwsh' ? 'powershell' : name] || POSIX_DIALECT
+}
+
+/**
+ * Build the chat messages that ask the provider for an ordered plan of commands
+ * - A `plan` prompt template replaces the built-in system prompt
+ */
+export function buildPlanMessages(
+  text: string,
+  info: EnvironmentInfo,
+  prompts?: PromptTemplates,
+): ChatMessage[] {
+  const system = buildSystemPrompt('plan', prompts, {
+    lines: [
+      'You turn natural-language requests that take several steps into an ordered list of shell commands.',
+      'The commands will run in this environment:',
+      ...describeEnvironment(info),
+      'Use syntax that works in this shell on this operating system, and prefer tools that are available.',
+      'Each step is one command. Steps run one after another in the working directory, each in a new shell process,',
+      'so `cd`, variables and activated environments do not carry over: use paths such as `.venv/bin/pip` instead.',
+      `Use as few steps as the request needs, at most ${MAX_PLAN_STEPS}.`,
+    ],
+    format: [
+      'Reply with JSON only, in the form {"summary": "...", "steps": [{"command": "...", "explanation": "..."}]}.',
+      'The summary and each explanation are one short sentence. Do not wrap the JSON in markdown.',
+    ],
+    info,
+    variables: { text, maxSteps: String(MAX_PLAN_STEPS) },
+  })
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: text },
+  ]
+}
+
+/**
+ * Turn a raw model reply into a plan
+ * - A reply that is not JSON is read as a script, one step per line, without blank lines and comments
+ */
+export function parsePlan(raw: string): CommandPlan {
+  const parsed = parseJsonReply(raw)
+  if (!parsed || !Array.isArray(parsed.steps)) {
+    const steps = stripCodeFence(raw)
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#') && !/^REM\b/i.test(line))
+      .map(command => ({ command }))
+    return { steps: steps.slice(0, MAX_PLAN_STEPS), raw }
+  }
+
+  const steps: PlanStep[] = parsed.steps
+    .filter(isJsonObject)
+    .filter(step => typeof step.command === 'string' && step.command.trim())
+    .map(step => ({
+      command: String(step.command).trim(),
+      explanation: typeof step.explanation === 'string' ? step.explanation : undefined,
+    }))
+  return {
+    summary: typeof parsed.summary === 'string' ? parsed.summary : undefined,
+    steps: steps.slice(0, MAX_PLAN_STEPS),
+    raw,
+  }
+}
+
+/**
+ * Ask the configured provider for an ordered plan of commands for the given request
+ */
+export async function generatePlan(
+  text: string,
+  info: EnvironmentInfo,
+  config: ShellManConfig,
+  options: CompletionOptions = {},
+): Promise<CommandPlan> {
+  const cacheKey = getCacheKey('plan', text, info, config)
+  const raw = await requestCompletion(config, buildPlanMessages(text, info, config.PROMPT_TEMPLATES), { ...options, cacheKey })
+  const plan = parsePlan(raw)
+
+  if (plan.steps.length === 0)
+    throw new GenerationError('Provider returned no steps')
+
+  return plan
+}
+
+/**
+ * Render a plan as a script for the detected shell
+ * - The shebang is the detected shell path, the script stops at the first step that fails
+ */
+export function renderPlanScript(
+  text: string,
+  plan: Pick<CommandPlan, 'summary' | 'steps'>,
+  info: EnvironmentInfo,
+): string {
+  const dialect = getScriptDialect(info)
+  const lines = [
+    ...dialect.header(info),
+    `${dialect.comment} Generated by shellman for: ${text.replace(/\s+/g, ' ')}`,
+    ...(plan.summary ? [`${dialect.comment} ${plan.summary}`] : []),
+  ]
+  plan.steps.forEach((step, index) => {
+    lines.push('', `${dialect.comment} Step ${index + 1}${step.explanation ? `: ${step.explanation}` : ''}`, step.command, ...dialect.afterStep)
+  })
+  // Batch files need CRLF line endings to be read reliably by cmd
+  const newline = dialect.extension === '.bat' ? '\r\n' : '\n'
+  return `${lines.join(newline)}${newline}`
+}
+
+/**
+ * Get the script file extension for the detected shell
+ */
+export function getScriptExtension(info: EnvironmentInfo): string {
+  return getScriptDialect(info).extension
+}
+
+/**
+ * Write a plan script, adding the extension for the shell when the path has none
+ * - Existing files are only replaced with `overwrite`, the script is made executable
+ */
+export function savePlanScript(
+  filePath: string,
+  script: string,
+  info: EnvironmentInfo,
+  overwrite = false,
+): string {
+  const target = path.resolve(path.extname(filePath) ? filePath : `${filePath}${getScriptExtension(info)}`)
+  if (!overwrite && fs.existsSync(target))
+    throw new PlanError(`${target} already exists, pass --force to replace it`)
+
+  try {
+    fs.writeFileSync(target, script, { encoding: 'utf-8', mode: 0o755 })
+    fs.chmodSync(target, 0o755)
+  }
+  catch (error) {
+    throw new PlanError(`Could not write ${target}: ${(error as Error).message}`)
+  }
+  return target
+}
+
+/**
+ * Print the plan as a numbered checklist with the status, risk and availability of each step
+ */
+export function displayPlan(steps: AssessedStep[], statuses: StepStatus[]): void {
+  steps.forEach((step, index) => {
+    const status = statuses[index] || 'pending'
+    const warn = status === 'failed' || (status === 'pending' && (step.risk.level === 'high' || step.missingPrograms.length > 0))
+    const log = warn ? logger.error : logger.info
+    log.tag(`${STATUS_MARKS[status]} ${index + 1}.`).data(step.command).message(describeCandidate(step)).print()
+  })
+}
@@ -0,0 +1,113 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import type { EnvironmentInfo } from './types'
+import { getNativeDryRun, getSandboxBlocker, previewCommand } from './preview'
+
+const BASH: EnvironmentInfo = { osType: 'Linux', osVersion: '6', architecture: 'x64', shellPath: '/bin/sh', shellName: 'bash' }
+
+let root: string
+let cwd: string
+
+beforeEach(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'shellman-preview-spec-')))
+  cwd = path.join(root, 'project')
+  fs.mkdirSync(cwd)
+  fs.writeFileSync(path.join(cwd, 'notes.txt'), 'hello\n')
+})
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('getSandboxBlocker', () => {
+  it('lets file utilities that stay inside the directory run', () => {
+    expect(getSandboxBlocker('mkdir out && cp notes.txt out/ && rm notes.txt', BASH)).toBeUndefined()
+    expect(getSandboxBlocker('touch a.txt 2>/dev/null', BASH)).toBeUndefined()
+  })
+
+  it('keeps out paths that leave the directory once quotes and escapes are removed', () => {
+    for (const command of [
+      'touch /tmp/x',
+      'touch ~/x',
+      'touch ../x',
+      'touch \'.\'\'.\'/x',
+      'touch ".."/x',
+      'touch .\\./x',
+      'cp notes.txt --target-directory=/tmp',
+      'touch a >/tmp/x',
+      'touch .?/x',
+      'touch .{.,}/x',
+      'touch $HOME/x',
+      '/tmp/bin/rm notes.txt',
+    ])
+      expect(getSandboxBlocker(command, BASH)).toBe('it uses paths outside the working directory')
+  })
+
+  it('keeps out commands that create links', () => {
+    expect(getSandboxBlocker('ln -s \'.\'\'.\' u && ln -s u/\'.\'\'.\' v && touch v/PWNED', BASH)).toBeDefined()
+    expect(getSandboxBlocker('ln -s notes.txt link', BASH)).toBe('ln is not a file utility')
+    expect(getSandboxBlocker('cp -rs notes.txt link', BASH)).toBe('it creates links')
+  })
+
+  it('keeps out high-risk, elevated and nested commands', () => {
+    expect(getSandboxBlocker('rm -rf /', BASH)).toBe('it is rated high risk')
+    expect(getSandboxBlocker('sudo rm notes.txt', BASH)).toBe('it runs with elevated rights')
+    expect(getSandboxBlocker('rm $(cat list)', BASH)).toBe('it runs nested commands')
+  })
+})
+
+describe('getNativeDryRun', () => {
+  it('adds the dry-run flag of tools whose dry run runs nothing', () => {
+    expect(getNativeDryRun('git clean -fd', BASH)).toBe('git clean --dry-run -fd')
+    expect(getNativeDryRun('find . -name "*.log" -delete', BASH)).toBe('find . -name "*.log" -print')
+  })
+
+  it('has no dry run for tools that still run code in theirs', () => {
+    expect(getNativeDryRun('pip install ./pkg', BASH)).toBeUndefined()
+    expect(getNativeDryRun('make install', BASH)).toBeUndefined()
+  })
+})
+
+describe('previewCommand', () => {
+  it('runs file utilities in a copy and lists what changed', async () => {
+    const preview = await previewCommand('mkdir out && mv notes.txt out/', BASH, cwd)
+
+    expect(preview.method).toBe('sandbox')
+    expect(preview.changes).toEqual([
+      { path: 'notes.txt', change: 'deleted' },
+      { path: `out${path.sep}`, change: 'created' },
+    ])
+    expect(fs.existsSync(path.join(cwd, 'notes.txt'))).toBe(true)
+  })
+
+  it('does not run the link chain that escaped the copy', async () => {
+    const outside = path.join(root, 'PWNED')
+    const preview = await previewCommand('ln -s \'.\'\'.\' u && ln -s u/\'.\'\'.\' v && touch v/PWNED', BASH, cwd)
+
+    expect(preview.method).not.toBe('sandbox')
+    expect(fs.existsSync(outside)).toBe(false)
+    expect(fs.existsSync(path.join(cwd, 'u'))).toBe(false)
+  })
+
+  it('refuses a directory with a link that resolves outside it', async () => {
+    fs.mkdirSync(path.join(cwd, 'a'))
+    fs.symlinkSync('..', path.join(cwd, 'a', 'up'))
+    fs.symlinkSync('a/up/..', path.join(cwd, 'escape'))
+
+    const preview = await previewCommand('touch escape/x', BASH, cwd)
+
+    expect(preview.method).toBe('static')
+    expect(preview.notes[0]).toStartWith('Not run in a sandbox')
+  })
+
+  it('says when the command ran but its copy could not be compared', async () => {
+    fs.writeFileSync(path.join(cwd, 'big.txt'), 'line\n'.repeat(5001))
+
+    const preview = await previewCommand('split -l 1 big.txt part', BASH, cwd)
+
+    expect(preview.notes[0]).toStartWith('The command was executed in a throwaway copy of the working directory')
+    expect(fs.readdirSync(cwd)).toEqual(['big.txt', 'notes.txt'])
+  })
+})
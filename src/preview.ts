@@ -0,0 +1,605 @@
+import { spawn } from 'node:child_process'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import * as process from 'node:process'
+import { getShellArgs } from './executor'
+import { logger } from './logger'
+import { analyzeCommand, argumentsOf, getShellFamily, listPrograms, redirectTargets, splitCommandLine, splitSegments } from './safety'
+import type { DryRunPreview, EnvironmentInfo, PathChange, PathPreview } from './types'
+
+// A dry run that takes longer than this is not a preview anymore
+const PREVIEW_TIMEOUT_MS = 15000
+// Directories above these limits are not copied for the sandbox
+const SANDBOX_MAX_FILES = 5000
+const SANDBOX_MAX_BYTES = 100 * 1024 * 1024
+// Longer lists and dry-run output are cut, the rest is counted
+const MAX_LISTED_CHANGES = 30
+const MAX_OUTPUT_LINES = 40
+
+// Programs that only read, they change nothing when a segment uses them
+const READ_ONLY_PROGRAMS = new Set([
+  'ls',
+  'cat',
+  'echo',
+  'printf',
+  'grep',
+  'egrep',
+  'rg',
+  'find',
+  'fd',
+  'head',
+  'tail',
+  'wc',
+  'du',
+  'df',
+  'pwd',
+  'stat',
+  'file',
+  'sort',
+  'uniq',
+  'cut',
+  'tr',
+  'diff',
+  'tree',
+  'which',
+  'true',
+  'dir',
+  'type',
+])
+
+// File utilities that only touch the paths they are given, safe to run in a copy of the directory
+// - sed, rename, tar and zip are left out, their scripts and options can run other commands
+// - ln and unzip are left out, a link they create can point the next write at the real files
+const SANDBOX_PROGRAMS = new Set([
+  ...READ_ONLY_PROGRAMS,
+  'rm',
+  'rmdir',
+  'unlink',
+  'mkdir',
+  'touch',
+  'mv',
+  'cp',
+  'chmod',
+  'tee',
+  'gzip',
+  'gunzip',
+  'bzip2',
+  'xz',
+  'split',
+  'del',
+  'erase',
+  'rd',
+  'md',
+  'move',
+  'copy',
+  'ren',
+])
+
+// Flags that make a tool print what it would do, inserted after the program or its subcommand
+// - make -n and pip --dry-run are left out, they still run recipe lines and the setup.py of source packages
+const NATIVE_DRY_RUNS: { program: string, subcommands?: string[], flags: string[], append?: boolean }[] = [
+  { program: 'git', subcommands: ['clean', 'rm', 'add', 'mv'], flags: ['--dry-run'] },
+  { program: 'rsync', flags: ['--dry-run', '--itemize-changes'] },
+  { program: 'rename', flags: ['-n'] },
+  { program: 'apt-get', subcommands: ['install', 'remove', 'purge', 'upgrade', 'dist-upgrade', 'autoremove'], flags: ['--simulate'] },
+  { program: 'apt', subcommands: ['install', 'remove', 'purge', 'upgrade', 'full-upgrade', 'autoremove'], flags: ['--simulate'] },
+  { program: 'npm', subcommands: ['install', 'i', 'uninstall', 'update', 'prune'], flags: ['--dry-run'], append: true },
+  { program: 'kubectl', subcommands: ['apply', 'create', 'delete'], flags: ['--dry-run=client'], append: true },
+]
+
+// PowerShell cmdlets and aliases that take -WhatIf, and those that only read
+const WHATIF_CMDLETS = new Set([
+  'remove-item',
+  'rm',
+  'ri',
+  'del',
+  'erase',
+  'rd',
+  'rmdir',
+  'move-item',
+  'mv',
+  'mi',
+  'move',
+  'copy-item',
+  'cp',
+  'cpi',
+  'copy',
+  'new-item',
+  'ni',
+  'mkdir',
+  'rename-item',
+  'ren',
+  'rni',
+  'set-content',
+  'add-content',
+  'ac',
+  'clear-content',
+  'clc',
+  'out-file',
+  'set-item',
+  'clear-item',
+  'stop-process',
+  'kill',
+  'spps',
+  'stop-service',
+  'restart-service',
+])
+const READ_ONLY_CMDLET = /^(?:get-[\w-]+|where-object|where|\?|select-object|select|sort-object|sort|measure-object|format-[\w-]+|ft|fl|gci|ls|dir|gc|cat|type|test-path|resolve-path|split-path|join-path)$/
+
+// Operands that reach outside the working directory keep a command out of the sandbox, checked once quotes are removed
+// - Every variable counts, $TMPDIR or $OLDPWD point outside as easily as $HOME does
+// - Globs and braces such as `.?` and `.{.,}` count as well, the shell can expand them to `..`
+const OUTSIDE_PATH = /^(?:\/(?!dev\/null$)|~|[a-z]:(?:[\\/]|$))|(?:^|[/\\])\.\.(?:[/\\]|$)|\$|%\w+%/i
+const EXPANDS_TO_PARENT = /(?:^|[/\\])\.[*?[{]|\{[^,}]*,|\{[^}]*\.\./
+const NESTED_COMMAND = /\$\(|`|<\(|>\(/
+const ELEVATED = /(?:^|[\s;&|])(?:sudo|doas|runas)\s/
+
+// True when an operand, the value of an `--option=value` or a redirect target can point outside the working directory
+// - Backslash escapes are read both ways, `.\.` is `..` to a POSIX shell and `C:\` is a path to cmd
+function reachesOutside(token: string): boolean {
+  return [token, token.replace(/\\(.)/g, '$1')].some((value) => {
+    const operand = value.replace(/^(?:\d*|&)[<>]+&?/, '')
+    return EXPANDS_TO_PARENT.test(operand)
+      || [operand, operand.slice(operand.indexOf('=') + 1)].some(part => OUTSIDE_PATH.test(part))
+  })
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// One path segment of a glob, `*`, `?` and `[...]` as bash reads them
+function globToRegExp(segment: string): RegExp {
+  let source = ''
+  for (let index = 0; index < segment.length; index++) {
+    const char = segment[index]
+    const end = char === '[' ? segment.indexOf(']', index + 2) : -1
+    if (char === '*') {
+      source += '.*'
+    }
+    else if (char === '?') {
+      source += '.'
+    }
+    else if (end > 0) {
+      source += `[${segment.slice(index + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`
+      index = end
+    }
+    else {
+      source += escapeRegExp(char)
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Expand a glob against the file system like bash without globstar
+ * - Hidden entries only match a segment that starts with a dot, a glob without matches stays as it is
+ */
+export function expandGlob(pattern: string, cwd: string): string[] {
+  if (!/[*?[]/.test(pattern))
+    return [pattern]
+
+  const absolute = path.isAbsolute(pattern)
+  let matches = [absolute ? path.parse(pattern).root : '']
+  for (const segment of pattern.split(/[/\\]/).filter(Boolean)) {
+    if (!/[*?[]/.test(segment)) {
+      matches = matches.map(match => path.join(match, segment))
+      continue
+    }
+    const matcher = globToRegExp(segment)
+    matches = matches.flatMap((match) => {
+      try {
+        return fs.readdirSync(path.resolve(cwd, match || '.'))
+          .filter(name => matcher.test(name) && (!name.startsWith('.') || segment.startsWith('.')))
+          .sort()
+          .map(name => path.join(match, name))
+      }
+      catch {
+        return []
+      }
+    })
+  }
+  return matches.length > 0 ? matches : [pattern]
+}
+
+/**
+ * Build the variant of a command that only reports what it would do, using the tool's own flag
+ * - POSIX shells use flags such as `-n` and `--dry-run`, `find -delete` becomes `find -print`
+ * - PowerShell adds -WhatIf to every cmdlet that changes something, the others must only read
+ * - Returns undefined when the command has no such variant, or is more than one simple command
+ */
+export function getNativeDryRun(command: string, info: EnvironmentInfo): string | undefined {
+  if (NESTED_COMMAND.test(command) || ELEVATED.test(command))
+    return undefined
+  const family = getShellFamily(info.shellName)
+
+  if (family === 'powershell') {
+    let changes = false
+    const parts = command.split(/([|;])/).map((part) => {
+      if (part === '|' || part === ';' || !part.trim())
+        return part
+      const cmdlet = part.trim().split(/\s+/)[0].toLowerCase()
+      if (WHATIF_CMDLETS.has(cmdlet)) {
+        changes = true
+        return /-whatif\b/i.test(part) ? part : `${part.trimEnd()} -WhatIf `
+      }
+      return READ_ONLY_CMDLET.test(cmdlet) ? part : undefined
+    })
+    return changes && !parts.includes(undefined) ? parts.join('').trim() : undefined
+  }
+
+  if (family !== 'posix' || /&&|\|\||[;|&\n<>]/.test(command))
+    return undefined
+  const tokens = command.trim().split(/\s+/)
+  let index = 0
+  while (index < tokens.length && (tokens[index] === 'env' || /^\w+=/.test(tokens[index])))
+    index++
+  const program = tokens[index]?.replace(/^.*\//, '')
+  if (!program)
+    return undefined
+
+  if (program === 'find') {
+    const deleteAt = tokens.indexOf('-delete', index)
+    return deleteAt < 0 ? undefined : tokens.map((token, position) => position === deleteAt ? '-print' : token).join(' ')
+  }
+
+  for (const dryRun of NATIVE_DRY_RUNS) {
+    if (dryRun.program !== program)
+      continue
+    // The subcommand is the first word after the program that is not a flag
+    const subcommandAt = tokens.findIndex((token, position) => position > index && !token.startsWith('-'))
+    if (dryRun.subcommands && !dryRun.subcommands.includes(tokens[subcommandAt]))
+      return undefined
+    if (dryRun.flags.every(flag => tokens.includes(flag)))
+      return command
+    if (dryRun.append)
+      return [...tokens, ...dryRun.flags].join(' ')
+    const insertAt = (dryRun.subcommands ? subcommandAt : index) + 1
+    return [...tokens.slice(0, insertAt), ...dryRun.flags, ...tokens.slice(insertAt)].join(' ')
+  }
+  return undefined
+}
+
+// Run a command through the detected shell without a terminal, collecting what it prints
+function runQuietly(
+  command: string,
+  info: EnvironmentInfo,
+  cwd: string,
+  env: NodeJS.ProcessEnv = { ...process.env, PWD: cwd },
+): Promise<{ exitCode: number, output: string, timedOut: boolean }> {
+  return new Promise((resolve) => {
+    let output = ''
+    const child = spawn(info.shellPath, getShellArgs(info, command), {
+      cwd,
+      env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      timeout: PREVIEW_TIMEOUT_MS,
+      windowsVerbatimArguments: info.shellName.toLowerCase() === 'cmd',
+    })
+    child.stdout.on('data', chunk => output += chunk)
+    child.stderr.on('data', chunk => output += chunk)
+    child.on('error', error => resolve({ exitCode: 1, output: error.message, timedOut: false }))
+    child.on('close', (code, signal) => resolve({ exitCode: code ?? 1, output: output.trimEnd(), timedOut: signal !== null }))
+  })
+}
+
+async function runNativeDryRun(dryRun: string, info: EnvironmentInfo, cwd: string): Promise<DryRunPreview> {
+  const { exitCode, output, timedOut } = await runQuietly(dryRun, info, cwd)
+  const lines = output.split('\n')
+  const notes: string[] = []
+  if (timedOut)
+    notes.push(`The dry run was stopped after ${PREVIEW_TIMEOUT_MS / 1000} seconds`)
+  else if (exitCode)
+    notes.push(`The dry run exited with code ${exitCode}, the command will likely fail too`)
+  if (lines.length > MAX_OUTPUT_LINES)
+    notes.push(`Showing the first ${MAX_OUTPUT_LINES} of ${lines.length} lines`)
+  return {
+    method: 'native',
+    changes: [],
+    command: dryRun,
+    output: lines.slice(0, MAX_OUTPUT_LINES).join('\n'),
+    notes,
+  }
+}
+
+// File type, size, mode and modification time of every entry below `root`, keyed by relative path
+// - Undefined when the directory cannot be read or is over the sandbox limits
+function snapshot(root: string): Map<string, string> | undefined {
+  try {
+    return readEntries(root)
+  }
+  catch {
+    return undefined
+  }
+}
+
+function readEntries(directory: string): Map<string, string> | undefined {
+  const root = fs.realpathSync(directory)
+  const isInside = (target: string) => !path.relative(root, target).startsWith('..') && !path.isAbsolute(path.relative(root, target))
+  const entries = new Map<string, string>()
+  let bytes = 0
+  const pending = ['']
+  while (pending.length > 0) {
+    const relative = pending.pop()!
+    for (const entry of fs.readdirSync(path.join(root, relative), { withFileTypes: true })) {
+      const entryPath = path.join(relative, entry.name)
+      const stats = fs.lstatSync(path.join(root, entryPath))
+      if (entry.isSymbolicLink()) {
+        // A link out of the directory would let the command write to the real files, chains of links are followed
+        const target = path.resolve(root, relative, fs.readlinkSync(path.join(root, entryPath)))
+        const resolved = fs.existsSync(path.join(root, entryPath)) ? fs.realpathSync(path.join(root, entryPath)) : target
+        if (!isInside(target) || !isInside(resolved))
+          return undefined
+      }
+      if (entry.isDirectory())
+        pending.push(entryPath)
+      bytes += stats.size
+      entries.set(entryPath, `${entry.isDirectory() ? 'd' : 'f'}:${stats.size}:${stats.mode}:${stats.mtimeMs}`)
+      if (entries.size > SANDBOX_MAX_FILES || bytes > SANDBOX_MAX_BYTES)
+        return undefined
+    }
+  }
+  return entries
+}
+
+function diffSnapshots(before: Map<string, string>, after: Map<string, string>): PathPreview[] {
+  const changes = new Map<string, PathChange>()
+  for (const [entry, signature] of after) {
+    if (!before.has(entry))
+      changes.set(entry, 'created')
+    // A directory changes with its contents, those are listed on their own
+    else if (before.get(entry) !== signature && !signature.startsWith('d'))
+      changes.set(entry, 'modified')
+  }
+  for (const entry of before.keys()) {
+    if (!after.has(entry))
+      changes.set(entry, 'deleted')
+  }
+
+  // Inside a created or deleted directory only the directory itself is listed
+  const isCovered = (entry: string, change: PathChange) => {
+    for (let parent = path.dirname(entry); parent !== '.'; parent = path.dirname(parent)) {
+      if (changes.get(parent) === change)
+        return true
+    }
+    return false
+  }
+  return [...changes]
+    .filter(([entry, change]) => change === 'modified' || !isCovered(entry, change))
+    .map(([entry, change]) => {
+      const isDirectory = (after.get(entry) || before.get(entry))!.startsWith('d')
+      return { path: isDirectory ? `${entry}${path.sep}` : entry, change }
+    })
+    .sort((a, b) => a.path.localeCompare(b.path))
+}
+
+// Only what the shell needs to start, with the home and temporary directories inside the sandbox
+function getSandboxEnv(root: string, workDir: string): NodeJS.ProcessEnv {
+  const home = path.join(root, 'home')
+  const temp = path.join(root, 'tmp')
+  fs.mkdirSync(home)
+  fs.mkdirSync(temp)
+  const env: NodeJS.ProcessEnv = { HOME: home, USERPROFILE: home, TMPDIR: temp, TEMP: temp, TMP: temp, PWD: workDir, OLDPWD: workDir }
+  for (const name of ['PATH', 'Path', 'PATHEXT', 'SystemRoot', 'ComSpec', 'LANG', 'LC_ALL']) {
+    if (process.env[name] !== undefined)
+      env[name] = process.env[name]
+  }
+  return env
+}
+
+/**
+ * Say why a command cannot run in a throwaway copy of the working directory, undefined when it can
+ * - Only file utilities that stay inside the directory qualify, nothing elevated, nested or networked
+ * - High-risk commands never run, not even in the copy
+ */
+export function getSandboxBlocker(command: string, info: EnvironmentInfo): string | undefined {
+  if (analyzeCommand(command, info).level === 'high')
+    return 'it is rated high risk'
+  if (ELEVATED.test(command))
+    return 'it runs with elevated rights'
+  if (NESTED_COMMAND.test(command) || /\s-(?:exec|execdir|ok|okdir)\s/.test(command))
+    return 'it runs nested commands'
+  // The tokens lose the directory of the program, so the words as written are checked too
+  const segments = splitSegments(command)
+  const words = splitCommandLine(command).flatMap(segment => segment.split(/\s+/).map(word => word.replace(/['"]/g, '')))
+  if ([...segments.flat(), ...words].some(reachesOutside))
+    return 'it uses paths outside the working directory'
+  if (segments.some(tokens => tokens[0].toLowerCase() === 'cp' && tokens.some(token => /^-[a-z]*s/i.test(token) || token === '--symbolic-link')))
+    return 'it creates links'
+  const unknown = listPrograms(command).filter(program => !SANDBOX_PROGRAMS.has(program.toLowerCase()))
+  if (unknown.length > 0)
+    return `${unknown.join(', ')} ${unknown.length === 1 ? 'is not a file utility' : 'are not file utilities'}`
+  return undefined
+}
+
+// Why the sandbox gave no comparison, `ran` is set once the command ran in the copy
+interface SandboxFailure {
+  reason: string
+  ran: boolean
+}
+
+async function runInSandbox(command: string, info: EnvironmentInfo, cwd: string): Promise<DryRunPreview | SandboxFailure> {
+  if (!snapshot(cwd))
+    return { reason: `the directory has more than ${SANDBOX_MAX_FILES} files, is larger than ${SANDBOX_MAX_BYTES / 1024 / 1024} MB or links outside itself`, ran: false }
+
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'shellman-preview-'))
+  const sandbox = path.join(root, 'work')
+  try {
+    // Clones share blocks with the originals on file systems with copy-on-write, others fall back to a copy
+    fs.cpSync(cwd, sandbox, { recursive: true, mode: fs.constants.COPYFILE_FICLONE, verbatimSymlinks: true })
+    // Absolute links into the working directory still point at the real files from the copy
+    const before = snapshot(sandbox)
+    if (!before)
+      return { reason: 'the directory has links that point at its real files', ran: false }
+    const { exitCode, timedOut } = await runQuietly(command, info, sandbox, getSandboxEnv(root, sandbox))
+    const after = snapshot(sandbox)
+    if (!after)
+      return { reason: 'the copy grew past the sandbox limits or links outside itself afterwards', ran: true }
+
+    const notes: string[] = []
+    if (timedOut)
+      notes.push(`The command was stopped after ${PREVIEW_TIMEOUT_MS / 1000} seconds, the changes may be incomplete`)
+    else if (exitCode)
+      notes.push(`The command exited with code ${exitCode} in the sandbox`)
+    return { method: 'sandbox', changes: diffSnapshots(before, after), notes }
+  }
+  finally {
+    fs.rmSync(root, { recursive: true, force: true })
+  }
+}
+
+// Drop `>`, `2>/dev/null` and the like, redirect targets are read from the whole command line
+function withoutRedirects(tokens: string[]): string[] {
+  return tokens.filter((token, index) => !/^(?:\d*|&)[<>]/.test(token) && !/^\d*[<>]{1,2}&?$/.test(tokens[index - 1] || ''))
+}
+
+// What a known program would do to its operands, undefined for programs this does not know
+function readSegment(tokens: string[], cwd: string): { path: string, change: PathChange }[] | undefined {
+  const program = tokens[0].toLowerCase()
+  const operands = argumentsOf(tokens).filter(Boolean)
+  const expand = (patterns: string[]) => patterns.flatMap(pattern => expandGlob(pattern, cwd))
+  const exists = (target: string) => fs.existsSync(path.resolve(cwd, target))
+  const isDirectory = (target: string) => exists(target) && fs.statSync(path.resolve(cwd, target)).isDirectory()
+  const written = (target: string) => ({ path: target, change: exists(target) ? 'modified' as const : 'created' as const })
+
+  switch (program) {
+    case 'rm':
+    case 'rmdir':
+    case 'unlink':
+    case 'del':
+    case 'erase':
+    case 'rd':
+      return expand(operands).filter(exists).map(target => ({ path: target, change: 'deleted' }))
+    case 'mkdir':
+    case 'md':
+      return expand(operands).filter(target => !exists(target)).map(target => ({ path: target, change: 'created' }))
+    case 'touch':
+    case 'tee':
+      return expand(operands).map(written)
+    case 'chmod':
+      return expand(operands.slice(1)).filter(exists).map(target => ({ path: target, change: 'modified' }))
+    case 'ln':
+      return operands.length > 0 ? [written(operands.length > 1 ? operands.at(-1)! : path.basename(operands[0]))] : []
+    case 'mv':
+    case 'move':
+    case 'cp':
+    case 'copy': {
+      if (operands.length < 2)
+        return []
+      const destination = operands.at(-1)!
+      const sources = expand(operands.slice(0, -1)).filter(exists)
+      const moves = program === 'mv' || program === 'move'
+      return sources.flatMap(source => [
+        ...(moves ? [{ path: source, change: 'deleted' as const }] : []),
+        written(isDirectory(destination) ? path.join(destination, path.basename(source)) : destination),
+      ])
+    }
+    case 'sed': {
+      if (!tokens.some(token => /^-[a-z]*i/i.test(token) || token.startsWith('--in-place')))
+        return []
+      // Without -e or -f the first operand is the script
+      const scripted = tokens.some(token => token === '-e' || token === '-f')
+      const files = tokens.slice(1).filter((token, index) => !token.startsWith('-') && token && !['-e', '-f'].includes(tokens[index]))
+      return expand(scripted ? files : files.slice(1)).filter(exists).map(target => ({ path: target, change: 'modified' }))
+    }
+    default:
+      return READ_ONLY_PROGRAMS.has(program) && !(program === 'find' && tokens.includes('-delete')) ? [] : undefined
+  }
+}
+
+/**
+ * Estimate the changes of a command from its operands, expanding globs in the working directory
+ */
+export function readArguments(command: string, info: EnvironmentInfo, cwd: string): DryRunPreview {
+  if (getShellFamily(info.shellName) === 'powershell')
+    return { method: 'none', changes: [], notes: ['PowerShell commands are previewed with -WhatIf, which this command does not support'] }
+
+  const changes: PathPreview[] = []
+  const unknown = new Set<string>()
+  const notes: string[] = []
+  for (const tokens of splitSegments(command)) {
+    const found = readSegment(withoutRedirects(tokens), cwd)
+    if (found)
+      changes.push(...found)
+    else
+      unknown.add(tokens[0])
+  }
+  for (const target of redirectTargets(command)) {
+    if (!/^(?:&\d|\/dev\/null|nul)$/i.test(target))
+      changes.push({ path: target, change: fs.existsSync(path.resolve(cwd, target)) ? 'modified' : 'created' })
+  }
+
+  if (/\$|%\w+%/.test(command))
+    notes.push('Paths built from variables are not expanded')
+  if (unknown.size > 0)
+    notes.push(`Not previewed: ${[...unknown].join(', ')}, these may change files as well`)
+  const unique = new Map(changes.filter(change => !/\$|%\w+%/.test(change.path)).map(change => [change.path, change]))
+  return { method: unknown.size > 0 && unique.size === 0 ? 'none' : 'static', changes: [...unique.values()], notes }
+}
+
+/**
+ * Preview which paths a command would create, modify or delete, without touching the working directory
+ * - The tool's own dry-run flag is used first for low-risk commands, its output shown as it is
+ * - File utilities that stay inside the directory run in a throwaway copy of it, the copy is then compared
+ * - The copy gets its own home and temporary directories and none of the user's environment
+ * - Anything else is estimated from its operands, with globs expanded in the working directory
+ */
+export async function previewCommand(
+  command: string,
+  info: EnvironmentInfo,
+  cwd = process.cwd(),
+): Promise<DryRunPreview> {
+  // A dry-run flag does not make every tool harmless, riskier commands are only estimated
+  const nativeDryRun = analyzeCommand(command, info).level === 'low' ? getNativeDryRun(command, info) : undefined
+  if (nativeDryRun)
+    return runNativeDryRun(nativeDryRun, info, cwd)
+
+  const blocker = getSandboxBlocker(command, info)
+  const result = blocker === undefined ? await runInSandbox(command, info, cwd) : { reason: blocker, ran: false }
+  if ('method' in result)
+    return result
+
+  const preview = readArguments(command, info, cwd)
+  const note = result.ran
+    ? `The command was executed in a throwaway copy of the working directory, but ${result.reason}, so the changes below are only estimated`
+    : `Not run in a sandbox: ${result.reason}`
+  return { ...preview, notes: [note, ...preview.notes] }
+}
+
+const METHOD_DESCRIPTIONS: Record<DryRunPreview['method'], string> = {
+  native: 'Reported by the tool\'s own dry run',
+  sandbox: 'Ran in a throwaway copy of the working directory',
+  static: 'Estimated from the arguments, with globs expanded',
+  none: 'Could not preview this command',
+}
+
+function listChanges(changes: PathPreview[]): string {
+  const listed = changes.slice(0, MAX_LISTED_CHANGES).map(change => change.path)
+  if (changes.length > MAX_LISTED_CHANGES)
+    listed.push(`… and ${changes.length - MAX_LISTED_CHANGES} more`)
+  return listed.join('\n')
+}
+
+/**
+ * Print a dry-run preview, deletions first and as errors
+ */
+export function displayPreview(preview: DryRunPreview): void {
+  const summary = preview.method === 'native'
+    ? preview.command!
+    : preview.changes.length > 0
+      ? `${preview.changes.length} ${preview.changes.length === 1 ? 'path' : 'paths'} would change`
+      : preview.method === 'none' ? 'Unknown' : 'No file changes'
+  logger.info.tag('Dry run').data(summary).message([METHOD_DESCRIPTIONS[preview.method], ...preview.notes].join('\n')).appendDivider().print()
+  if (preview.output)
+    logger.info.tag('Output').data(preview.output).print()
+
+  const deleted = preview.changes.filter(change => change.change === 'deleted')
+  if (deleted.length > 0)
+    logger.error.tag('Deleted').data(listChanges(deleted)).print()
+  for (const change of ['created', 'modified'] as const) {
+    const matching = preview.changes.filter(entry => entry.change === change)
+    if (matching.length > 0)
+      logger.info.tag(change === 'created' ? 'Created' : 'Modified').data(listChanges(matching)).print()
+  }
+}
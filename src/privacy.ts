@@ -0,0 +1,185 @@
+import * as os from 'node:os'
+import type { ChatMessage, Redaction, RedactionKind, RedactionRules, ShellManConfig } from './types'
+
+// Tokens with a recognizable format, the value in the `secret` group is replaced when there is one
+const SECRET_DETECTORS: { label: string, pattern: RegExp }[] = [
+  { label: 'private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { label: 'URL password', pattern: /\b[a-z][\w+.-]*:\/\/[^\s:/@]+:(?<secret>[^\s/@]+)@/gi },
+  { label: 'AWS access key', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+  { label: 'JWT', pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g },
+  { label: 'GitHub token', pattern: /\b(?:gh[opsu]_\w{36,}|github_pat_\w{22,})/g },
+  { label: 'API key', pattern: /\bsk-[\w-]{20,}/g },
+  { label: 'Slack token', pattern: /\bxox[abposr]-[\w-]{10,}/g },
+  { label: 'Google API key', pattern: /\bAIza[\w-]{35}/g },
+  { label: 'bearer token', pattern: /\b(?:Bearer|Token)\s+(?<secret>[\w.~+/-]{8,}=*)/g },
+  { label: 'password flag', pattern: /--(?:password|passwd|token|secret|api-key)[=\s]+(?<secret>[^\s'"]+)/gi },
+  {
+    label: 'secret assignment',
+    pattern: /\b\w*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_?KEY)\w*\s*[=:]\s*["']?(?<secret>[^\s'"]{4,})/gi,
+  },
+]
+
+// Private address ranges and host name suffixes that only resolve inside a network
+const PRIVATE_ADDRESS = /\b(?:10\.\d{1,3}|192\.168|172\.(?:1[6-9]|2\d|3[01]))\.\d{1,3}\.\d{1,3}\b/g
+const INTERNAL_SUFFIXES = ['internal', 'local', 'lan', 'corp', 'intranet', 'home.arpa']
+
+// Account names shared by many machines, replacing them would only confuse the model
+const GENERIC_USERS = new Set(['root', 'admin', 'user', 'ubuntu', 'ec2-user', 'pi', 'vagrant', 'runner', 'node', 'guest'])
+
+// Candidates for the entropy check, long runs of base64 and URL-safe characters, paths are split at their slashes
+const HIGH_ENTROPY_CANDIDATE = /[\w+=-]{24,}/g
+// Bits per character above which a string with mixed case and digits is taken for a secret
+const ENTROPY_THRESHOLD = 4
+
+/**
+ * Replaces sensitive values with placeholders and puts them back in the reply
+ */
+export interface Redactor {
+  redact: (text: string) => string
+  // Put the original values back, JSON-escaped when the text is a JSON reply
+  restore: (text: string, json?: boolean) => string
+  redactions: () => Redaction[]
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function getEntropy(value: string): number {
+  const counts = new Map<string, number>()
+  for (const char of value)
+    counts.set(char, (counts.get(char) || 0) + 1)
+  let entropy = 0
+  for (const count of counts.values()) {
+    const probability = count / value.length
+    entropy -= probability * Math.log2(probability)
+  }
+  return entropy
+}
+
+function looksRandom(value: string): boolean {
+  return /[a-z]/.test(value) && /[A-Z]/.test(value) && /\d/.test(value) && getEntropy(value) >= ENTROPY_THRESHOLD
+}
+
+// A whole word, so a user named `al` does not turn `ls -al` into a placeholder
+function wordPattern(value: string): RegExp {
+  return new RegExp(`(?<![\\w.-])${escapeRegExp(value)}(?![\\w-])`, 'g')
+}
+
+// The suffix has to end the host name, so `corp` does not stop short inside `build.corp.example.com`
+function internalHostPattern(domains: string[]): RegExp {
+  const suffixes = [...INTERNAL_SUFFIXES, ...domains.map(domain => domain.replace(/^\.+/, ''))]
+    .map(escapeRegExp)
+    .join('|')
+  return new RegExp(`\\b[a-z\\d][a-z\\d-]*(?:\\.[a-z\\d-]+)*\\.(?:${suffixes})(?![\\w-]|\\.[a-z\\d])`, 'gi')
+}
+
+/**
+ * Resolve the redaction rules, every detector is on unless turned off in REDACTION_RULES
+ */
+export function getRedactionRules(config: ShellManConfig): Required<RedactionRules> {
+  const rules = config.REDACTION_RULES || {}
+  return {
+    secrets: rules.secrets ?? true,
+    entropy: rules.entropy ?? true,
+    identity: rules.identity ?? true,
+    internalDomains: rules.internalDomains || [],
+    patterns: rules.patterns || [],
+    allow: rules.allow || [],
+  }
+}
+
+/**
+ * Build the redactor for one request
+ * - Equal values get the same placeholder, so a prompt always redacts the same way and cached replies still restore
+ * - Placeholders are plain identifiers such as `__HOME__` and `__SECRET_1__`, harmless if a reply keeps one
+ * - With REDACT_PROMPTS off, text passes through unchanged
+ */
+export function createRedactor(config: ShellManConfig): Redactor {
+  const originals = new Map<string, string>()
+  const placeholders = new Map<string, Redaction>()
+  const counters: Partial<Record<RedactionKind, number>> = {}
+  const rules = getRedactionRules(config)
+  const allowed = new Set(rules.allow)
+
+  const placeholderFor = (original: string, kind: RedactionKind, label: string): string => {
+    const existing = placeholders.get(original)
+    if (existing)
+      return existing.placeholder
+    const fixed = { home: '__HOME__', user: '__USER__', hostname: '__HOSTNAME__' } as Partial<Record<RedactionKind, string>>
+    let placeholder = fixed[kind]
+    if (!placeholder) {
+      counters[kind] = (counters[kind] || 0) + 1
+      placeholder = `__${kind.toUpperCase()}_${counters[kind]}__`
+    }
+    placeholders.set(original, { placeholder, kind, label })
+    originals.set(placeholder, original)
+    return placeholder
+  }
+
+  // Replace the whole match, or only its `secret` group when the pattern has one
+  const replace = (text: string, pattern: RegExp, kind: RedactionKind, label: string): string =>
+    text.replace(pattern, (...args) => {
+      const match = args[0] as string
+      const groups = args.at(-1) as Record<string, string> | undefined
+      const secret = typeof groups === 'object' && groups?.secret ? groups.secret : match
+      if (allowed.has(secret) || /^__[A-Z]+(?:_\d+)?__$/.test(secret))
+        return match
+      return match.replace(secret, placeholderFor(secret, kind, label))
+    })
+
+  const redact = (text: string): string => {
+    if (!config.REDACT_PROMPTS)
+      return text
+
+    let result = text
+    if (rules.secrets) {
+      for (const { label, pattern } of SECRET_DETECTORS)
+        result = replace(result, pattern, 'secret', label)
+    }
+    for (const source of rules.patterns)
+      result = replace(result, new RegExp(source, 'g'), 'pattern', `pattern ${source}`)
+    result = replace(result, internalHostPattern(rules.internalDomains), 'host', 'internal host')
+    result = replace(result, PRIVATE_ADDRESS, 'host', 'private address')
+
+    if (rules.identity) {
+      const home = os.homedir()
+      if (home.length > 1)
+        result = replace(result, new RegExp(`${escapeRegExp(home)}(?![\\w.-])`, 'g'), 'home', 'home directory')
+      const user = os.userInfo().username
+      if (user.length >= 3 && !GENERIC_USERS.has(user.toLowerCase()))
+        result = replace(result, wordPattern(user), 'user', 'user name')
+      const hostname = os.hostname()
+      for (const name of new Set([hostname, hostname.split('.')[0]])) {
+        if (name.length >= 3 && name !== 'localhost')
+          result = replace(result, wordPattern(name), 'hostname', 'host name')
+      }
+    }
+
+    if (rules.entropy) {
+      result = result.replace(HIGH_ENTROPY_CANDIDATE, candidate =>
+        looksRandom(candidate) && !allowed.has(candidate) ? placeholderFor(candidate, 'entropy', 'random-looking string') : candidate)
+    }
+    return result
+  }
+
+  const restore = (text: string, json = false): string => {
+    // Latest first, a later placeholder can cover text that already held an earlier one
+    let result = text
+    for (const [placeholder, original] of [...originals].reverse())
+      result = result.split(placeholder).join(json ? JSON.stringify(original).slice(1, -1) : original)
+    return result
+  }
+
+  return { redact, restore, redactions: () => [...placeholders.values()] }
+}
+
+/**
+ * Redact the content of every message, keeping the roles
+ */
+export function redactMessages(redactor: Redactor, messages: ChatMessage[]): ChatMessage[] {
+  return messages.map(message => ({ ...message, content: redactor.redact(message.content) }))
+}
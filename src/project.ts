@@ -0,0 +1,430 @@
+import { execFile } from 'node:child_process'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { ProjectContext } from './types'
+
+// Extra ignore patterns kept next to the project, one glob per line
+const PROJECT_IGNORE_FILE = '.shellmanignore'
+
+// Entries that may hold secrets, always skipped whatever the ignore file says
+const DEFAULT_IGNORE = [
+  '.env',
+  '.env.*',
+  '*.env',
+  '.envrc',
+  '.npmrc',
+  '.pypirc',
+  '.netrc',
+  '.git-credentials',
+  '.aws',
+  '.ssh',
+  '.gnupg',
+  'id_rsa*',
+  'id_dsa*',
+  'id_ecdsa*',
+  'id_ed25519*',
+  '*.pem',
+  '*.key',
+  '*.p12',
+  '*.pfx',
+  '*.jks',
+  '*.keystore',
+  '*.kdbx',
+  '*.tfvars',
+  '*.tfstate',
+  '*secret*',
+  '*credential*',
+  '*password*',
+  '*token*',
+]
+
+// Manifests larger than this are not worth summarizing
+const MAX_FILE_BYTES = 256 * 1024
+// Upper bound for a single git probe
+const GIT_TIMEOUT_MS = 2000
+// Long script names and paths are cut so one entry cannot use up the budget
+const MAX_ITEM_LENGTH = 60
+// Entries listed from the working directory before the budget applies
+const MAX_LISTED_FILES = 40
+
+const HEADER = 'Project in the working directory:'
+
+const COMPOSE_FILES = ['compose.yaml', 'compose.yml', 'docker-compose.yaml', 'docker-compose.yml']
+const MAKEFILES = ['GNUmakefile', 'makefile', 'Makefile']
+const JUSTFILES = ['justfile', 'Justfile', '.justfile']
+
+// Lock files name the package manager when package.json does not
+const NODE_LOCK_FILES: [string, string][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['package-lock.json', 'npm'],
+]
+
+const PYTHON_LOCK_FILES: [string, string][] = [
+  ['uv.lock', 'uv'],
+  ['poetry.lock', 'poetry'],
+  ['pdm.lock', 'pdm'],
+  ['Pipfile', 'pipenv'],
+]
+
+// One fact about the project, rendered as `label: item, item`
+interface ProjectSection {
+  label: string
+  items: string[]
+}
+
+// Files of the working directory that survived the ignore list
+interface ProjectFiles {
+  directory: string
+  names: Set<string>
+  read: (name: string) => string | undefined
+}
+
+/**
+ * Roughly four characters per token for English text and code
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+/**
+ * Read the ignore patterns for a directory, the built-in ones first
+ * - Patterns are globs matched against entry names of the working directory, case-insensitively
+ */
+export function readIgnorePatterns(directory: string): string[] {
+  let extra: string[] = []
+  try {
+    extra = fs.readFileSync(path.join(directory, PROJECT_IGNORE_FILE), 'utf-8')
+      .split('\n')
+      .map(line => line.trim().replace(/^\/+|\/+$/g, ''))
+      .filter(line => line && !line.startsWith('#'))
+  }
+  catch {
+    // No project ignore file
+  }
+  return [...DEFAULT_IGNORE, ...extra]
+}
+
+/**
+ * Check whether an entry name matches one of the ignore patterns
+ */
+export function isIgnored(name: string, patterns: string[]): boolean {
+  return patterns.some(pattern => globToRegExp(pattern).test(name))
+}
+
+function listProjectFiles(directory: string): { files: ProjectFiles, listed: string[], ignored: string[] } {
+  const patterns = readIgnorePatterns(directory)
+  let entries: fs.Dirent[] = []
+  try {
+    entries = fs.readdirSync(directory, { withFileTypes: true })
+  }
+  catch {
+    // An unreadable directory has no project facts
+  }
+
+  const ignored = entries.filter(entry => isIgnored(entry.name, patterns)).map(entry => entry.name).sort()
+  const kept = entries.filter(entry => !isIgnored(entry.name, patterns) && entry.name !== '.git')
+  const names = new Set(kept.filter(entry => entry.isFile()).map(entry => entry.name))
+  const listed = kept
+    .map(entry => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+    .sort((a, b) => a.localeCompare(b))
+
+  const read = (name: string) => {
+    if (!names.has(name))
+      return undefined
+    try {
+      const filePath = path.join(directory, name)
+      return fs.statSync(filePath).size > MAX_FILE_BYTES ? undefined : fs.readFileSync(filePath, 'utf-8')
+    }
+    catch {
+      return undefined
+    }
+  }
+  return { files: { directory, names, read }, listed, ignored }
+}
+
+function shorten(item: string): string {
+  return item.length > MAX_ITEM_LENGTH ? `${item.slice(0, MAX_ITEM_LENGTH - 1)}…` : item
+}
+
+function detectNode(files: ProjectFiles): ProjectSection[] {
+  const raw = files.read('package.json')
+  if (!raw)
+    return []
+
+  let manifest: Record<string, unknown>
+  try {
+    manifest = JSON.parse(raw)
+  }
+  catch {
+    return [{ label: 'package.json (not valid JSON)', items: [] }]
+  }
+
+  const declared = typeof manifest.packageManager === 'string' ? manifest.packageManager.split('@')[0] : undefined
+  const manager = declared || NODE_LOCK_FILES.find(([file]) => files.names.has(file))?.[1] || 'npm'
+  const scripts = manifest.scripts && typeof manifest.scripts === 'object' ? Object.keys(manifest.scripts) : []
+  return [scripts.length > 0
+    ? { label: `package.json scripts, run with ${manager} run <name>`, items: scripts }
+    : { label: `package.json without scripts, packages managed with ${manager}`, items: [] }]
+}
+
+function detectMake(files: ProjectFiles): ProjectSection[] {
+  const name = MAKEFILES.find(file => files.names.has(file))
+  const raw = name && files.read(name)
+  if (!raw)
+    return []
+
+  const targets = new Set<string>()
+  for (const line of raw.split('\n')) {
+    // `target:` and `a b: deps`, but not `VAR := value`, `.PHONY:` or pattern rules
+    const match = line.match(/^([\w./-][\w./ -]*)::?(?!=)/)
+    if (!match)
+      continue
+    for (const target of match[1].split(/\s+/)) {
+      if (target && !target.startsWith('.') && !target.includes('%'))
+        targets.add(target)
+    }
+  }
+  return [{ label: `${name} targets, run with make <target>`, items: [...targets] }]
+}
+
+function detectJust(files: ProjectFiles): ProjectSection[] {
+  const name = JUSTFILES.find(file => files.names.has(file))
+  const raw = name && files.read(name)
+  if (!raw)
+    return []
+
+  const recipes: string[] = []
+  for (const line of raw.split('\n')) {
+    // Recipes start in the first column and end their header with a colon that is not part of `:=`
+    const match = line.match(/^@?([A-Z_][\w-]*)(?:\s[^:]*)?:(?!=)/i)
+    if (match && !['alias', 'export', 'import', 'mod', 'set'].includes(match[1]))
+      recipes.push(match[1])
+  }
+  return [{ label: `${name} recipes, run with just <recipe>`, items: recipes }]
+}
+
+function detectCompose(files: ProjectFiles): ProjectSection[] {
+  const name = COMPOSE_FILES.find(file => files.names.has(file))
+  const raw = name && files.read(name)
+  if (!raw)
+    return []
+
+  // Service names are the keys one level below the top-level `services:` key
+  const services: string[] = []
+  let inServices = false
+  let indent: number | undefined
+  for (const line of raw.split('\n')) {
+    if (!line.trim() || line.trim().startsWith('#'))
+      continue
+    const depth = line.length - line.trimStart().length
+    if (depth === 0) {
+      inServices = /^services\s*:/.test(line)
+      continue
+    }
+    if (!inServices)
+      continue
+    indent ??= depth
+    const match = line.match(/^\s*["']?([\w.-]+)["']?\s*:/)
+    if (depth === indent && match)
+      services.push(match[1])
+  }
+  return [{ label: `${name} services, run with docker compose`, items: services }]
+}
+
+function detectDockerfiles(files: ProjectFiles): ProjectSection[] {
+  const dockerfiles = [...files.names].filter(name => /^Dockerfile(?:\..+)?$|\.Dockerfile$|^Containerfile$/i.test(name)).sort()
+  return dockerfiles.length > 0 ? [{ label: 'Container images built from', items: dockerfiles }] : []
+}
+
+// Read `key = value` pairs of a TOML file by table, enough for the few fields summarized here
+function readTomlTables(raw: string): Map<string, Map<string, string>> {
+  const tables = new Map<string, Map<string, string>>([['', new Map()]])
+  let current = tables.get('')!
+  for (const line of raw.split('\n')) {
+    const header = line.trim().match(/^\[{1,2}([^\]]+)\]/)
+    if (header) {
+      const name = header[1].trim()
+      current = tables.get(name) || new Map()
+      tables.set(name, current)
+      continue
+    }
+    const pair = line.trim().match(/^["']?([\w.-]+)["']?\s*=(.*)$/)
+    if (pair)
+      current.set(pair[1], pair[2].trim().replace(/^["'](.*)["']$/, '$1'))
+  }
+  return tables
+}
+
+function detectRust(files: ProjectFiles): ProjectSection[] {
+  const raw = files.read('Cargo.toml')
+  if (!raw)
+    return []
+
+  const tables = readTomlTables(raw)
+  const name = tables.get('package')?.get('name')
+  const binaries = tables.has('bin') ? ['has [[bin]] targets'] : []
+  const label = tables.has('workspace')
+    ? 'Cargo.toml, Rust workspace, build with cargo'
+    : `Cargo.toml, Rust package${name ? ` ${name}` : ''}, build with cargo`
+  return [{ label, items: binaries }]
+}
+
+function detectGo(files: ProjectFiles): ProjectSection[] {
+  const raw = files.read('go.mod')
+  if (!raw)
+    return []
+
+  const module = raw.match(/^module\s+(\S+)/m)?.[1]
+  const version = raw.match(/^go\s+(\S+)/m)?.[1]
+  const workspace = files.names.has('go.work') ? ', with go.work' : ''
+  return [{ label: `go.mod, Go module${module ? ` ${module}` : ''}${version ? ` (go ${version})` : ''}${workspace}`, items: [] }]
+}
+
+function detectPython(files: ProjectFiles): ProjectSection[] {
+  const raw = files.read('pyproject.toml')
+  const lockTool = PYTHON_LOCK_FILES.find(([file]) => files.names.has(file))?.[1]
+  const testTools = [
+    files.names.has('tox.ini') && 'tox',
+    files.names.has('noxfile.py') && 'nox',
+    (files.names.has('pytest.ini') || raw?.includes('[tool.pytest')) && 'pytest',
+  ].filter((tool): tool is string => Boolean(tool))
+  const tests = testTools.length > 0 ? `, tests with ${testTools.join(', ')}` : ''
+
+  if (!raw) {
+    const manifests = ['requirements.txt', 'setup.py', 'setup.cfg', 'Pipfile'].filter(file => files.names.has(file))
+    if (manifests.length === 0)
+      return []
+    return [{ label: `Python project with ${manifests.join(', ')}${lockTool ? `, managed with ${lockTool}` : ''}${tests}`, items: [] }]
+  }
+
+  const tables = readTomlTables(raw)
+  const name = tables.get('project')?.get('name') || tables.get('tool.poetry')?.get('name')
+  const tool = lockTool
+    || ['poetry', 'pdm', 'hatch', 'uv', 'flit'].find(candidate => [...tables.keys()].some(table => table.startsWith(`tool.${candidate}`)))
+    || 'pip'
+  const scripts = [...(tables.get('project.scripts')?.keys() || []), ...(tables.get('tool.poetry.scripts')?.keys() || [])]
+  return [{
+    label: `pyproject.toml, Python project${name ? ` ${name}` : ''} managed with ${tool}${tests}${scripts.length > 0 ? ', console scripts' : ''}`,
+    items: scripts,
+  }]
+}
+
+function runGit(args: string[], directory: string): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    execFile('git', args, { cwd: directory, timeout: GIT_TIMEOUT_MS, windowsHide: true }, (error, stdout) => {
+      resolve(error ? undefined : stdout)
+    })
+  })
+}
+
+// Remote URLs can carry credentials, only the host and path are kept
+function describeRemoteUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.host}${parsed.pathname}`
+  }
+  catch {
+    // scp-like syntax such as git@github.com:owner/repo.git
+    return url.replace(/^[^@/]*@/, '')
+  }
+}
+
+async function detectGit(directory: string): Promise<ProjectSection[]> {
+  const [status, remotes] = await Promise.all([
+    runGit(['status', '--porcelain=v1', '--branch'], directory),
+    runGit(['remote', '-v'], directory),
+  ])
+  if (status === undefined)
+    return []
+
+  const [branchLine, ...changes] = status.split('\n').filter(Boolean)
+  // `## main...origin/main [ahead 1, behind 2]`, `## HEAD (no branch)` or `## No commits yet on main`
+  const branch = branchLine?.replace(/^## /, '').replace(/^No commits yet on (\S+)/, '$1 (no commits yet)') || 'unknown'
+  const [local, tracking] = branch.split('...')
+  const items = [
+    tracking ? `branch ${local} tracking ${tracking}` : `branch ${local}`,
+    changes.length > 0 ? `${changes.length} uncommitted ${changes.length === 1 ? 'change' : 'changes'}` : 'clean working tree',
+  ]
+
+  const fetchRemotes = (remotes || '').split('\n')
+    .map(line => line.match(/^(\S+)\s+(\S+)\s+\(fetch\)$/))
+    .filter((match): match is RegExpMatchArray => Boolean(match))
+    .map(match => `remote ${match[1]} ${describeRemoteUrl(match[2])}`)
+  return [{ label: 'Git', items: [...items, ...fetchRemotes] }]
+}
+
+function renderSection(label: string, items: string[]): string {
+  return items.length > 0 ? `- ${label}: ${items.join(', ')}` : `- ${label}`
+}
+
+// Add sections in priority order, cutting item lists and dropping sections once the budget runs out
+function fitToBudget(sections: ProjectSection[], budget: number): { lines: string[], tokens: number, truncated: boolean } {
+  const lines: string[] = []
+  // The header line and the newlines between lines count against the budget as well
+  let tokens = estimateTokens(`${HEADER}\n`)
+  let truncated = false
+
+  for (const section of sections) {
+    const items = section.items.map(shorten)
+    let line = renderSection(section.label, items)
+    while (tokens + estimateTokens(`${line}\n`) > budget && items.length > 0) {
+      items.pop()
+      line = renderSection(section.label, [...items, `${section.items.length - items.length} more`])
+      truncated = true
+    }
+    if (tokens + estimateTokens(`${line}\n`) > budget) {
+      truncated = true
+      continue
+    }
+    lines.push(line)
+    tokens += estimateTokens(`${line}\n`)
+  }
+  return { lines, tokens, truncated }
+}
+
+/**
+ * Summarize the project in a directory for the prompt, within a token budget
+ * - Reads package.json scripts, Makefile targets, justfile recipes, compose services and Cargo, Go and Python manifests
+ * - Adds the git branch, upstream, uncommitted changes and remotes, without credentials in their URLs
+ * - Only entries of the directory itself are read, anything matching the ignore list is never opened or listed
+ * - Task runners come first, the plain file listing is the first to be cut when the budget runs out
+ */
+export async function gatherProjectContext(directory: string, budget: number): Promise<ProjectContext> {
+  const { files, listed, ignored } = listProjectFiles(directory)
+  const sections = [
+    ...detectNode(files),
+    ...detectMake(files),
+    ...detectJust(files),
+    ...detectCompose(files),
+    ...detectDockerfiles(files),
+    ...detectRust(files),
+    ...detectGo(files),
+    ...detectPython(files),
+    ...await detectGit(directory),
+  ]
+  if (listed.length > 0) {
+    const shown = listed.slice(0, MAX_LISTED_FILES)
+    const more = listed.length - shown.length
+    sections.push({ label: 'Files', items: more > 0 ? [...shown, `${more} more`] : shown })
+  }
+
+  return { directory, ignored, ...fitToBudget(sections, budget) }
+}
+
+/**
+ * Describe the project as prompt lines, empty when nothing was found
+ */
+export function describeProject(context: ProjectContext): string[] {
+  return context.lines.length > 0 ? [HEADER, ...context.lines] : []
+}
@@ -0,0 +1,220 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as process from 'node:process'
+import { getConfigDir } from './config'
+import { describeEnvironment } from './environment'
+import { describeProject } from './project'
+import type { EnvironmentInfo, ExtendedEnvironmentInfo, PromptLayer, PromptName, PromptTemplate, PromptTemplates } from './types'
+import { PROMPT_NAMES } from './types'
+
+// Project prompts directory, looked up from the working directory upwards like `.shellmanrc`
+const PROJECT_PROMPTS_DIR = path.join('.shellman', 'prompts')
+// House rules file in every prompts directory, one rule per line
+const RULES_FILE = 'rules.md'
+const TEMPLATE_EXTENSION = '.md'
+
+// `{{name}}` inserts a variable, `{{#name}}...{{/name}}` keeps its content only when the variable is not empty
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g
+const SECTION = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g
+
+// Variables every prompt has, on top of the ones listed in PROMPT_VARIABLES
+const COMMON_VARIABLES = [
+  'osType',
+  'osVersion',
+  'architecture',
+  'shellPath',
+  'shellName',
+  'shellVersion',
+  'distro',
+  'packageManager',
+  'coreutils',
+  'tools',
+  'cwd',
+  'environment',
+  'project',
+  'rules',
+  'text',
+  'format',
+]
+
+/**
+ * Variables a template for each prompt can use besides the common ones
+ */
+export const PROMPT_VARIABLES: Record<PromptName, string[]> = {
+  generate: ['count'],
+  explain: ['command'],
+  fix: ['command', 'exitCode', 'stderr'],
+  plan: ['maxSteps'],
+  translate: ['from', 'to'],
+}
+
+/**
+ * Error raised when a prompt template uses a variable that does not exist
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PromptTemplateError'
+  }
+}
+
+/**
+ * Find the nearest project prompts directory by walking up from a directory
+ */
+export function findProjectPromptsDir(startDir: string = process.cwd()): string | undefined {
+  let current = path.resolve(startDir)
+  while (true) {
+    const candidate = path.join(current, PROJECT_PROMPTS_DIR)
+    if (fs.existsSync(candidate))
+      return candidate
+    const parent = path.dirname(current)
+    if (parent === current)
+      return undefined
+    current = parent
+  }
+}
+
+/**
+ * List the prompts directories for a profile, lowest priority first, whether they exist or not
+ */
+export function getPromptsDirs(profile?: string, startDir?: string): { layer: PromptLayer, directory: string }[] {
+  const globalDir = path.join(getConfigDir(), 'prompts')
+  const project = findProjectPromptsDir(startDir)
+  return [
+    { layer: 'global', directory: globalDir },
+    ...(profile ? [{ layer: 'profile' as const, directory: path.join(globalDir, 'profiles', profile) }] : []),
+    ...(project ? [{ layer: 'project' as const, directory: project }] : []),
+  ]
+}
+
+function readFile(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, 'utf-8')
+  }
+  catch {
+    return undefined
+  }
+}
+
+// One rule per line, blank lines, `#` comments and list markers are dropped
+function parseRules(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim().replace(/^[-*]\s+/, ''))
+    .filter(line => line && !line.startsWith('#'))
+}
+
+/**
+ * Read the custom templates and house rules for a run
+ * - A template in the project directory wins over one for the profile, which wins over the global one
+ * - House rules add up over every layer, repeated rules are kept once
+ */
+export function loadPromptTemplates(profile?: string, startDir?: string): PromptTemplates {
+  const templates: PromptTemplates['templates'] = {}
+  const rules: string[] = []
+  const ruleFiles: string[] = []
+
+  for (const { layer, directory } of getPromptsDirs(profile, startDir)) {
+    for (const name of PROMPT_NAMES) {
+      const filePath = path.join(directory, `${name}${TEMPLATE_EXTENSION}`)
+      const text = readFile(filePath)
+      if (text?.trim())
+        templates[name] = { text, path: filePath, layer }
+    }
+    const rulesPath = path.join(directory, RULES_FILE)
+    const rulesText = readFile(rulesPath)
+    if (rulesText !== undefined) {
+      ruleFiles.push(rulesPath)
+      rules.push(...parseRules(rulesText))
+    }
+  }
+  return { templates, rules: [...new Set(rules)], ruleFiles }
+}
+
+/**
+ * The prompt lines that list the house rules, empty when there are none
+ */
+export function describeRules(rules: string[]): string[] {
+  return rules.length > 0 ? ['Always follow these house rules:', ...rules.map(rule => `- ${rule}`)] : []
+}
+
+function getEnvironmentVariables(info: EnvironmentInfo): Record<string, string> {
+  const extended = info as Partial<ExtendedEnvironmentInfo>
+  return {
+    osType: info.osType,
+    osVersion: info.osVersion,
+    architecture: info.architecture,
+    shellPath: info.shellPath,
+    shellName: info.shellName,
+    shellVersion: extended.shellVersion || '',
+    distro: extended.distro || '',
+    packageManager: extended.packageManager || '',
+    coreutils: extended.coreutils || '',
+    tools: (extended.tools || []).map(tool => tool.name).join(', '),
+    cwd: extended.cwd || '',
+    // The project has its own variable, so a template can place or leave it out
+    environment: describeEnvironment({ ...info, project: undefined } as EnvironmentInfo).join('\n'),
+    project: extended.project ? describeProject(extended.project).join('\n') : '',
+  }
+}
+
+/**
+ * Fill in a template, failing on variables the prompt does not have so typos surface
+ */
+export function renderTemplate(template: PromptTemplate, variables: Record<string, string>): string {
+  const unknown = [...template.text.matchAll(VARIABLE), ...template.text.matchAll(SECTION)]
+    .map(match => match[1])
+    .filter(name => !(name in variables))
+  if (unknown.length > 0) {
+    throw new PromptTemplateError(`Unknown ${unknown.length === 1 ? 'variable' : 'variables'} ${[...new Set(unknown)].join(', ')} in ${template.path}, expected one of ${Object.keys(variables).join(', ')}`)
+  }
+
+  return template.text
+    .replace(SECTION, (_, name: string, content: string) => variables[name] ? content : '')
+    .replace(VARIABLE, (_, name: string) => variables[name])
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Assemble the system prompt, from the custom template when there is one or from the built-in lines
+ * - House rules go after the built-in lines, a template places them with {{rules}}
+ * - The reply format is appended when a template leaves out {{format}}, the reply could not be read otherwise
+ */
+export function buildSystemPrompt(
+  name: PromptName,
+  prompts: PromptTemplates | undefined,
+  {
+    lines,
+    format,
+    info,
+    variables,
+  }: {
+    lines: string[]
+    format: string[]
+    info: EnvironmentInfo
+    variables: Record<string, string>
+  },
+): string {
+  const rules = prompts?.rules || []
+  const template = prompts?.templates[name]
+  if (!template)
+    return [...lines, ...describeRules(rules), ...format].join('\n')
+
+  const rendered = renderTemplate(template, {
+    ...getEnvironmentVariables(info),
+    rules: rules.map(rule => `- ${rule}`).join('\n'),
+    format: format.join('\n'),
+    ...variables,
+  })
+  return /\{\{\s*format\s*\}\}/.test(template.text)
+    ? rendered
+    : [rendered, ...format].join('\n')
+}
+
+/**
+ * Every variable a template for the prompt can use
+ */
+export function listPromptVariables(name: PromptName): string[] {
+  return [...COMMON_VARIABLES, ...PROMPT_VARIABLES[name]]
+}
@@ -0,0 +1,103 @@
+import type { ModelListRequest, Provider, ProviderRequest } from '../types'
+import { PROVIDER_MODELS } from '../types'
+import { ProviderError, getJson, joinUrl, postJson, readServerSentEvents } from './http'
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1'
+const ANTHROPIC_VERSION = '2023-06-01'
+const MAX_TOKENS = 1024
+
+// The parts of the Messages API payloads this adapter reads
+interface ContentBlock {
+  type?: string
+  text?: unknown
+}
+
+interface MessagePayload {
+  content?: ContentBlock[]
+}
+
+interface StreamEvent {
+  type?: string
+  delta?: { type?: string, text?: unknown }
+  error?: { message?: string }
+}
+
+interface ModelListPayload {
+  data?: ({ id?: unknown } | null)[]
+}
+
+/**
+ * Build the Messages API body, moving system messages to the top-level field
+ */
+function buildBody(request: ProviderRequest, stream: boolean) {
+  const system = request.messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n')
+
+  return {
+    model: request.model,
+    max_tokens: MAX_TOKENS,
+    temperature: 0,
+    ...(system ? { system } : {}),
+    messages: request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({ role: message.role, content: message.content })),
+    ...(stream ? { stream: true } : {}),
+  }
+}
+
+function buildHeaders(request: ModelListRequest): Record<string, string> {
+  return {
+    'x-api-key': request.apiKey,
+    'anthropic-version': ANTHROPIC_VERSION,
+  }
+}
+
+/**
+ * Anthropic Messages API adapter
+ * - Requests go to `<endpoint>/messages`
+ * - Streaming uses server-sent events with `content_block_delta` text deltas
+ * - Models are listed from `<endpoint>/models`
+ */
+export const anthropicProvider: Provider = {
+  name: 'anthropic',
+  models: PROVIDER_MODELS.anthropic,
+
+  async complete(request) {
+    const url = joinUrl(request.endpoint || ANTHROPIC_BASE_URL, 'messages')
+    const response = await postJson('anthropic', url, buildHeaders(request), buildBody(request, false), request.signal)
+
+    const payload = await response.json() as MessagePayload | undefined
+    if (!Array.isArray(payload?.content))
+      throw new ProviderError('Response did not contain any content', 'anthropic')
+
+    return payload.content
+      .filter(block => block.type === 'text' && typeof block.text === 'string')
+      .map(block => block.text)
+      .join('')
+  },
+
+  async* stream(request) {
+    const url = joinUrl(request.endpoint || ANTHROPIC_BASE_URL, 'messages')
+    const response = await postJson('anthropic', url, buildHeaders(request), buildBody(request, true), request.signal)
+
+    for await (const { data } of readServerSentEvents(response)) {
+      const event = JSON.parse(data) as StreamEvent
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && typeof event.delta.text === 'string')
+        yield event.delta.text
+      else if (event.type === 'message_stop')
+        return
+      else if (event.type === 'error')
+        throw new ProviderError(event.error?.message || 'Stream error', 'anthropic')
+    }
+  },
+
+  async listModels(request) {
+    const url = joinUrl(request.endpoint || ANTHROPIC_BASE_URL, 'models?limit=1000')
+    const payload = await getJson<ModelListPayload>('anthropic', url, buildHeaders(request), request.signal)
+    if (!Array.isArray(payload?.data))
+      throw new ProviderError('Response did not contain a model list', 'anthropic')
+    return payload.data.map(model => model?.id).filter((id): id is string => typeof id === 'string')
+  },
+}
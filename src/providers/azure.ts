@@ -0,0 +1,21 @@
+import { PROVIDER_MODELS } from '../types'
+import { joinUrl } from './http'
+import { createOpenAICompatibleProvider } from './openai'
+
+const AZURE_API_VERSION = '2024-02-01'
+
+/**
+ * Azure OpenAI uses the OpenAI payloads on a per-deployment URL
+ * - API_CUSTOM_ENDPOINT is the resource URL, e.g. https://my-resource.openai.azure.com
+ * - API_MODEL is the deployment name, there is no model listing
+ * - Authentication goes through the `api-key` header instead of a bearer token
+ */
+export const azureProvider = createOpenAICompatibleProvider({
+  name: 'azure',
+  models: PROVIDER_MODELS.azure,
+  url: (baseUrl, request) =>
+    `${joinUrl(baseUrl, `openai/deployments/${encodeURIComponent(request.model)}/chat/completions`)}?api-version=${AZURE_API_VERSION}`,
+  headers: (request): Record<string, string> => (request.apiKey ? { 'api-key': request.apiKey } : {}),
+  // Deployments are named by the user and cannot be listed with an API key
+  filterModels: false,
+})
@@ -0,0 +1,83 @@
+import type { ModelListRequest, Provider, ProviderRequest } from '../types'
+import { PROVIDER_MODELS } from '../types'
+import { ProviderError, getJson, joinUrl, postJson, readServerSentEvents } from './http'
+
+const COHERE_BASE_URL = 'https://api.cohere.com/v2'
+
+// The parts of the v2 chat and v1 models payloads this adapter reads
+interface ChatPayload {
+  message?: { content?: { type?: string, text?: unknown }[] }
+}
+
+interface StreamEvent {
+  type?: string
+  delta?: { message?: { content?: { text?: unknown } } }
+}
+
+interface ModelListPayload {
+  models?: ({ name?: unknown } | null)[]
+}
+
+function buildBody(request: ProviderRequest, stream: boolean) {
+  return {
+    model: request.model,
+    messages: request.messages,
+    temperature: 0,
+    ...(stream ? { stream: true } : {}),
+  }
+}
+
+function buildHeaders(request: ModelListRequest): Record<string, string> {
+  return { Authorization: `Bearer ${request.apiKey}` }
+}
+
+/**
+ * Cohere v2 chat adapter
+ * - Requests go to `<endpoint>/chat`
+ * - Streaming uses server-sent events with `content-delta` events
+ * - Models are listed from the v1 `models` endpoint, which the v2 API does not replace
+ */
+export const cohereProvider: Provider = {
+  name: 'cohere',
+  models: PROVIDER_MODELS.cohere,
+
+  async complete(request) {
+    const url = joinUrl(request.endpoint || COHERE_BASE_URL, 'chat')
+    const response = await postJson('cohere', url, buildHeaders(request), buildBody(request, false), request.signal)
+
+    const payload = await response.json() as ChatPayload | undefined
+    const content = payload?.message?.content
+    if (!Array.isArray(content))
+      throw new ProviderError('Response did not contain a message', 'cohere')
+
+    return content
+      .filter(block => block.type === 'text' && typeof block.text === 'string')
+      .map(block => block.text)
+      .join('')
+  },
+
+  async* stream(request) {
+    const url = joinUrl(request.endpoint || COHERE_BASE_URL, 'chat')
+    const response = await postJson('cohere', url, buildHeaders(request), buildBody(request, true), request.signal)
+
+    for await (const { data } of readServerSentEvents(response)) {
+      const event = JSON.parse(data) as StreamEvent
+      if (event.type === 'content-delta') {
+        const text = event.delta?.message?.content?.text
+        if (typeof text === 'string' && text)
+          yield text
+      }
+      else if (event.type === 'message-end') {
+        return
+      }
+    }
+  },
+
+  async listModels(request) {
+    const baseUrl = (request.endpoint || COHERE_BASE_URL).replace(/\/v2\/?$/, '/v1')
+    const payload = await getJson<ModelListPayload>('cohere', joinUrl(baseUrl, 'models?endpoint=chat&page_size=1000'), buildHeaders(request), request.signal)
+    if (!Array.isArray(payload?.models))
+      throw new ProviderError('Response did not contain a model list', 'cohere')
+    return payload.models.map(model => model?.name).filter((name): name is string => typeof name === 'string')
+  },
+}
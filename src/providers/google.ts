@@ -0,0 +1,92 @@
+import type { ModelListRequest, Provider, ProviderRequest } from '../types'
+import { PROVIDER_MODELS } from '../types'
+import { ProviderError, getJson, joinUrl, postJson, readServerSentEvents } from './http'
+
+const GOOGLE_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta'
+
+// The parts of the generateContent and models payloads this adapter reads
+interface GenerateContentPayload {
+  candidates?: { content?: { parts?: { text?: unknown }[] } }[]
+}
+
+interface ModelListPayload {
+  models?: ({ name?: unknown, supportedGenerationMethods?: unknown } | null)[]
+}
+
+/**
+ * Build the Gemini generateContent body
+ * - System messages become `systemInstruction`
+ * - Assistant messages use the `model` role
+ */
+function buildBody(request: ProviderRequest) {
+  const system = request.messages
+    .filter(message => message.role === 'system')
+    .map(message => ({ text: message.content }))
+
+  return {
+    ...(system.length > 0 ? { systemInstruction: { parts: system } } : {}),
+    contents: request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      })),
+    generationConfig: { temperature: 0 },
+  }
+}
+
+function buildHeaders(request: ModelListRequest): Record<string, string> {
+  return { 'x-goog-api-key': request.apiKey }
+}
+
+function extractText(payload: GenerateContentPayload | undefined): string {
+  const parts = payload?.candidates?.[0]?.content?.parts
+  if (!Array.isArray(parts))
+    return ''
+  return parts.map(part => typeof part.text === 'string' ? part.text : '').join('')
+}
+
+/**
+ * Google Gemini adapter
+ * - Requests go to `<endpoint>/models/<model>:generateContent`
+ * - Streaming uses `:streamGenerateContent?alt=sse`, each event carrying a partial candidate
+ * - Models are listed from `<endpoint>/models`, keeping those that support generateContent
+ */
+export const googleProvider: Provider = {
+  name: 'google',
+  models: PROVIDER_MODELS.google,
+
+  async complete(request) {
+    const model = encodeURIComponent(request.model)
+    const url = joinUrl(request.endpoint || GOOGLE_BASE_URL, `models/${model}:generateContent`)
+    const response = await postJson('google', url, buildHeaders(request), buildBody(request), request.signal)
+
+    const payload = await response.json() as GenerateContentPayload | undefined
+    if (!Array.isArray(payload?.candidates))
+      throw new ProviderError('Response did not contain any candidates', 'google')
+
+    return extractText(payload)
+  },
+
+  async* stream(request) {
+    const model = encodeURIComponent(request.model)
+    const url = `${joinUrl(request.endpoint || GOOGLE_BASE_URL, `models/${model}:streamGenerateContent`)}?alt=sse`
+    const response = await postJson('google', url, buildHeaders(request), buildBody(request), request.signal)
+
+    for await (const { data } of readServerSentEvents(response)) {
+      const text = extractText(JSON.parse(data) as GenerateContentPayload | undefined)
+      if (text)
+        yield text
+    }
+  },
+
+  async listModels(request) {
+    const url = joinUrl(request.endpoint || GOOGLE_BASE_URL, 'models?pageSize=1000')
+    const payload = await getJson<ModelListPayload>('google', url, buildHeaders(request), request.signal)
+    if (!Array.isArray(payload?.models))
+      throw new ProviderError('Response did not contain a model list', 'google')
+    return payload.models
+      .filter(model => Array.isArray(model?.supportedGenerationMethods) && model.supportedGenerationMethods.includes('generateContent'))
+      .map(model => String(model?.name).replace(/^models\//, ''))
+  },
+}
@@ -0,0 +1,147 @@
+/**
+ * Error raised when a provider request fails or returns an unexpected payload
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number,
+    // Delay requested by the server through a Retry-After header
+    public readonly retryAfterMs?: number,
+  ) {
+    super(message)
+    this.name = 'ProviderError'
+  }
+}
+
+/**
+ * Join a base URL and a path without doubling slashes
+ */
+export function joinUrl(baseUrl: string, urlPath: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${urlPath.replace(/^\/+/, '')}`
+}
+
+/**
+ * Read a Retry-After header given in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value)
+    return undefined
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds))
+    return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * POST a JSON body and return the raw response, raising on non-2xx statuses
+ */
+export async function postJson(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  })
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    throw new ProviderError(
+      `Request failed with status ${response.status}: ${detail}`,
+      provider,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after')),
+    )
+  }
+
+  return response
+}
+
+/**
+ * GET a JSON document, raising on non-2xx statuses
+ * - `T` describes what the caller reads, the fields still have to be checked since the server decides the shape
+ */
+export async function getJson<T>(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<T | undefined> {
+  const response = await fetch(url, { headers, signal })
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    throw new ProviderError(`Request failed with status ${response.status}: ${detail}`, provider, response.status)
+  }
+
+  return await response.json() as T | undefined
+}
+
+/**
+ * Read a response body as text lines
+ */
+async function* readLines(response: Response): AsyncIterable<string> {
+  if (!response.body)
+    return
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true })
+    let newline = buffer.indexOf('\n')
+    while (newline !== -1) {
+      yield buffer.slice(0, newline).replace(/\r$/, '')
+      buffer = buffer.slice(newline + 1)
+      newline = buffer.indexOf('\n')
+    }
+  }
+
+  buffer += decoder.decode()
+  if (buffer)
+    yield buffer
+}
+
+/**
+ * Read a server-sent events stream and yield each event's data payload
+ */
+export async function* readServerSentEvents(
+  response: Response,
+): AsyncIterable<{ event?: string, data: string }> {
+  let event: string | undefined
+  let data: string[] = []
+
+  for await (const line of readLines(response)) {
+    if (line === '') {
+      if (data.length > 0)
+        yield { event, data: data.join('\n') }
+      event = undefined
+      data = []
+    }
+    else if (line.startsWith('event:')) {
+      event = line.slice(6).trim()
+    }
+    else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trimStart())
+    }
+  }
+
+  if (data.length > 0)
+    yield { event, data: data.join('\n') }
+}
+
+/**
+ * Read a newline-delimited JSON stream and yield each parsed object
+ */
+export async function* readJsonLines<T>(response: Response): AsyncIterable<T> {
+  for await (const line of readLines(response)) {
+    if (line.trim())
+      yield JSON.parse(line) as T
+  }
+}
@@ -0,0 +1,47 @@
+import type { Provider } from '../types'
+import { anthropicProvider } from './anthropic'
+import { azureProvider } from './azure'
+import { cohereProvider } from './cohere'
+import { googleProvider } from './google'
+import { mistralProvider } from './mistral'
+import { ollamaProvider } from './ollama'
+import { openaiProvider } from './openai'
+
+export { ProviderError } from './http'
+export { createOpenAICompatibleProvider } from './openai'
+
+const registry = new Map<string, Provider>()
+
+/**
+ * Register a provider adapter, replacing any adapter with the same name
+ */
+export function registerProvider(provider: Provider): void {
+  registry.set(provider.name, provider)
+}
+
+/**
+ * Look up a provider adapter by name
+ */
+export function getProvider(name: string): Provider | undefined {
+  return registry.get(name)
+}
+
+/**
+ * List the names of all registered providers, built-in ones first
+ */
+export function listProviderNames(): string[] {
+  return [...registry.keys()]
+}
+
+// Built-in adapters, one per entry of API_PROVIDERS
+for (const provider of [
+  openaiProvider,
+  anthropicProvider,
+  googleProvider,
+  cohereProvider,
+  mistralProvider,
+  ollamaProvider,
+  azureProvider,
+]) {
+  registerProvider(provider)
+}
@@ -0,0 +1,11 @@
+import { PROVIDER_MODELS } from '../types'
+import { createOpenAICompatibleProvider } from './openai'
+
+/**
+ * Mistral exposes an OpenAI-compatible chat completions API
+ */
+export const mistralProvider = createOpenAICompatibleProvider({
+  name: 'mistral',
+  baseUrl: 'https://api.mistral.ai/v1',
+  models: PROVIDER_MODELS.mistral,
+})
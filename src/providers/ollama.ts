@@ -0,0 +1,75 @@
+import type { ModelListRequest, Provider, ProviderRequest } from '../types'
+import { PROVIDER_MODELS } from '../types'
+import { ProviderError, getJson, joinUrl, postJson, readJsonLines } from './http'
+
+const OLLAMA_BASE_URL = 'http://localhost:11434'
+
+// The parts of the chat and tags payloads this adapter reads, streamed chunks have the same shape as a reply
+interface ChatPayload {
+  message?: { content?: unknown }
+  done?: boolean
+  error?: string
+}
+
+interface ModelListPayload {
+  models?: ({ name?: unknown } | null)[]
+}
+
+function buildBody(request: ProviderRequest, stream: boolean) {
+  return {
+    model: request.model,
+    messages: request.messages,
+    stream,
+    options: { temperature: 0 },
+  }
+}
+
+function buildHeaders(request: ModelListRequest): Record<string, string> {
+  return request.apiKey ? { Authorization: `Bearer ${request.apiKey}` } : {}
+}
+
+/**
+ * Ollama native chat adapter
+ * - Requests go to `<endpoint>/api/chat`
+ * - Streaming uses newline-delimited JSON objects ending with `"done": true`
+ * - An API key is optional and only sent when configured (e.g. behind a proxy)
+ * - Models are the ones pulled locally, listed from `<endpoint>/api/tags`
+ */
+export const ollamaProvider: Provider = {
+  name: 'ollama',
+  models: PROVIDER_MODELS.ollama,
+  apiKeyOptional: true,
+
+  async complete(request) {
+    const url = joinUrl(request.endpoint || OLLAMA_BASE_URL, 'api/chat')
+    const response = await postJson('ollama', url, buildHeaders(request), buildBody(request, false), request.signal)
+
+    const payload = await response.json() as ChatPayload | undefined
+    const content = payload?.message?.content
+    if (typeof content !== 'string')
+      throw new ProviderError('Response did not contain a message', 'ollama')
+    return content
+  },
+
+  async* stream(request) {
+    const url = joinUrl(request.endpoint || OLLAMA_BASE_URL, 'api/chat')
+    const response = await postJson('ollama', url, buildHeaders(request), buildBody(request, true), request.signal)
+
+    for await (const chunk of readJsonLines<ChatPayload>(response)) {
+      if (chunk.error)
+        throw new ProviderError(chunk.error, 'ollama')
+      const text = chunk.message?.content
+      if (typeof text === 'string' && text)
+        yield text
+      if (chunk.done)
+        return
+    }
+  },
+
+  async listModels(request) {
+    const payload = await getJson<ModelListPayload>('ollama', joinUrl(request.endpoint || OLLAMA_BASE_URL, 'api/tags'), buildHeaders(request), request.signal)
+    if (!Array.isArray(payload?.models))
+      throw new ProviderError('Response did not contain a model list', 'ollama')
+    return payload.models.map(model => model?.name).filter((name): name is string => typeof name === 'string')
+  },
+}
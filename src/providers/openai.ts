@@ -0,0 +1,110 @@
+import type { ModelListRequest, Provider, ProviderRequest } from '../types'
+import { PROVIDER_MODELS } from '../types'
+import { ProviderError, getJson, joinUrl, postJson, readServerSentEvents } from './http'
+
+// The parts of the chat completions and `/models` payloads this adapter reads
+interface ChatCompletionPayload {
+  choices?: { message?: { content?: unknown }, delta?: { content?: unknown } }[]
+}
+
+interface ModelListPayload {
+  data?: ({ id?: unknown } | null)[]
+}
+
+// Models in a `/models` listing that cannot answer chat completions
+const NON_CHAT_MODEL = /embed|moderation|whisper|tts|dall-e|audio|realtime|transcribe|image|search/i
+
+interface OpenAICompatibleOptions {
+  name: string
+  baseUrl?: string
+  models: string[]
+  // Resolve the chat completions URL for a request
+  url?: (baseUrl: string, request: ProviderRequest) => string
+  // Build the auth headers for a request
+  headers?: (request: ModelListRequest) => Record<string, string>
+  // Keep the chat models of a `<endpoint>/models` listing, false when the API has no such listing
+  filterModels?: ((id: string) => boolean) | false
+}
+
+/**
+ * Create an adapter for any API that speaks the OpenAI chat completions format
+ * - Requests go to `<endpoint>/chat/completions` unless `url` is overridden
+ * - Streaming uses server-sent events terminated by `data: [DONE]`
+ * - Models are listed from `<endpoint>/models`, embedding and similar models are left out
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): Provider {
+  const resolveBaseUrl = (request: ModelListRequest): string => {
+    const baseUrl = request.endpoint || options.baseUrl
+    if (!baseUrl)
+      throw new ProviderError('An endpoint is required, set API_CUSTOM_ENDPOINT', options.name)
+    return baseUrl
+  }
+
+  const resolveUrl = (request: ProviderRequest): string => {
+    const baseUrl = resolveBaseUrl(request)
+    return options.url ? options.url(baseUrl, request) : joinUrl(baseUrl, 'chat/completions')
+  }
+
+  const resolveHeaders = (request: ModelListRequest): Record<string, string> => {
+    if (options.headers)
+      return options.headers(request)
+    return request.apiKey ? { Authorization: `Bearer ${request.apiKey}` } : {}
+  }
+
+  const filterModels = options.filterModels ?? ((id: string) => !NON_CHAT_MODEL.test(id))
+
+  return {
+    name: options.name,
+    models: options.models,
+
+    listModels: filterModels
+      ? async (request) => {
+        const payload = await getJson<ModelListPayload>(options.name, joinUrl(resolveBaseUrl(request), 'models'), resolveHeaders(request), request.signal)
+        if (!Array.isArray(payload?.data))
+          throw new ProviderError('Response did not contain a model list', options.name)
+        return payload.data
+          .map(model => model?.id)
+          .filter((id: unknown): id is string => typeof id === 'string' && filterModels(id))
+      }
+      : undefined,
+
+    async complete(request) {
+      const response = await postJson(options.name, resolveUrl(request), resolveHeaders(request), {
+        model: request.model,
+        messages: request.messages,
+        temperature: 0,
+      }, request.signal)
+
+      const payload = await response.json() as ChatCompletionPayload | undefined
+      const content = payload?.choices?.[0]?.message?.content
+      if (typeof content !== 'string')
+        throw new ProviderError('Response did not contain a message', options.name)
+      return content
+    },
+
+    async* stream(request) {
+      const response = await postJson(options.name, resolveUrl(request), resolveHeaders(request), {
+        model: request.model,
+        messages: request.messages,
+        temperature: 0,
+        stream: true,
+      }, request.signal)
+
+      for await (const { data } of readServerSentEvents(response)) {
+        if (data === '[DONE]')
+          return
+        const delta = (JSON.parse(data) as ChatCompletionPayload | undefined)?.choices?.[0]?.delta?.content
+        if (typeof delta === 'string' && delta)
+          yield delta
+      }
+    },
+  }
+}
+
+export const openaiProvider = createOpenAICompatibleProvider({
+  name: 'openai',
+  baseUrl: 'https://api.openai.com/v1',
+  models: PROVIDER_MODELS.openai,
+  // The OpenAI listing also holds image, speech and embedding models
+  filterModels: id => /^(?:gpt-|chatgpt-|o\d)/.test(id) && !NON_CHAT_MODEL.test(id),
+})
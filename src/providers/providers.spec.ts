@@ -0,0 +1,308 @@
+import type { Server } from 'bun'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'bun:test'
+import type { ChatMessage, Provider } from '../types'
+import { ProviderError, getProvider, listProviderNames } from './index'
+
+// A request as the mock server saw it
+interface RecordedRequest {
+  method: string
+  path: string
+  headers: Headers
+  body: any
+}
+
+type Reply = (request: RecordedRequest) => Response
+
+const MESSAGES: ChatMessage[] = [
+  { role: 'system', content: 'Reply with a shell command' },
+  { role: 'user', content: 'list files' },
+]
+
+let server: Server<undefined>
+let endpoint: string
+let requests: RecordedRequest[] = []
+let reply: Reply = () => new Response('no reply set', { status: 500 })
+
+function json(body: unknown, init?: ResponseInit): Response {
+  return Response.json(body, init)
+}
+
+function sse(events: unknown[]): Response {
+  const text = events.map(event => `data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`).join('')
+  return new Response(text, { headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+function ndjson(lines: unknown[]): Response {
+  return new Response(lines.map(line => `${JSON.stringify(line)}\n`).join(''), { headers: { 'Content-Type': 'application/x-ndjson' } })
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = []
+  for await (const chunk of stream)
+    chunks.push(chunk)
+  return chunks
+}
+
+function provider(name: string): Provider {
+  const found = getProvider(name)
+  if (!found)
+    throw new Error(`Provider ${name} is not registered`)
+  return found
+}
+
+function lastRequest(): RecordedRequest {
+  const request = requests.at(-1)
+  if (!request)
+    throw new Error('The mock server received no request')
+  return request
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url)
+      const text = await request.text()
+      const recorded = {
+        method: request.method,
+        path: `${url.pathname}${url.search}`,
+        headers: request.headers,
+        body: text ? JSON.parse(text) : undefined,
+      }
+      requests.push(recorded)
+      return reply(recorded)
+    },
+  })
+  endpoint = `http://localhost:${server.port}/v1`
+})
+
+afterAll(() => {
+  server.stop(true)
+})
+
+beforeEach(() => {
+  requests = []
+})
+
+describe('provider registry', () => {
+  it('registers every built-in adapter', () => {
+    expect(listProviderNames()).toEqual(['openai', 'anthropic', 'google', 'cohere', 'mistral', 'ollama', 'azure'])
+  })
+})
+
+describe('openai', () => {
+  it('posts a chat completion with a bearer token', async () => {
+    reply = () => json({ choices: [{ message: { content: 'ls -la' } }] })
+    const content = await provider('openai').complete({ model: 'gpt-4o', messages: MESSAGES, apiKey: 'sk-test', endpoint })
+
+    expect(content).toBe('ls -la')
+    const request = lastRequest()
+    expect(request.method).toBe('POST')
+    expect(request.path).toBe('/v1/chat/completions')
+    expect(request.headers.get('authorization')).toBe('Bearer sk-test')
+    expect(request.body).toEqual({ model: 'gpt-4o', messages: MESSAGES, temperature: 0 })
+  })
+
+  it('streams deltas until [DONE]', async () => {
+    reply = () => sse([
+      { choices: [{ delta: { role: 'assistant' } }] },
+      { choices: [{ delta: { content: 'ls' } }] },
+      { choices: [{ delta: { content: ' -la' } }] },
+      '[DONE]',
+      { choices: [{ delta: { content: ' ignored' } }] },
+    ])
+    const chunks = await collect(provider('openai').stream({ model: 'gpt-4o', messages: MESSAGES, apiKey: 'sk-test', endpoint }))
+
+    expect(chunks).toEqual(['ls', ' -la'])
+    expect(lastRequest().body.stream).toBe(true)
+  })
+
+  it('lists only chat models', async () => {
+    reply = () => json({ data: [{ id: 'gpt-4o' }, { id: 'text-embedding-3-small' }, { id: 'dall-e-3' }, { id: 'o1-mini' }, null] })
+    const models = await provider('openai').listModels?.({ apiKey: 'sk-test', endpoint })
+
+    expect(models).toEqual(['gpt-4o', 'o1-mini'])
+    expect(lastRequest().path).toBe('/v1/models')
+  })
+
+  it('raises a ProviderError with the status and Retry-After delay', async () => {
+    reply = () => new Response('slow down', { status: 429, headers: { 'Retry-After': '2' } })
+    const error = await provider('openai').complete({ model: 'gpt-4o', messages: MESSAGES, apiKey: 'sk-test', endpoint }).catch(error => error)
+
+    expect(error).toBeInstanceOf(ProviderError)
+    expect(error.provider).toBe('openai')
+    expect(error.status).toBe(429)
+    expect(error.retryAfterMs).toBe(2000)
+    expect(error.message).toContain('slow down')
+  })
+
+  it('rejects a reply without a message', async () => {
+    reply = () => json({ choices: [] })
+    await expect(provider('openai').complete({ model: 'gpt-4o', messages: MESSAGES, apiKey: 'sk-test', endpoint })).rejects.toThrow('did not contain a message')
+  })
+})
+
+describe('azure', () => {
+  it('posts to the deployment URL with an api-key header', async () => {
+    reply = () => json({ choices: [{ message: { content: 'dir' } }] })
+    const content = await provider('azure').complete({ model: 'my deployment', messages: MESSAGES, apiKey: 'azure-key', endpoint })
+
+    expect(content).toBe('dir')
+    const request = lastRequest()
+    expect(request.path).toBe('/v1/openai/deployments/my%20deployment/chat/completions?api-version=2024-02-01')
+    expect(request.headers.get('api-key')).toBe('azure-key')
+    expect(request.headers.get('authorization')).toBeNull()
+    expect(provider('azure').listModels).toBeUndefined()
+  })
+})
+
+describe('anthropic', () => {
+  it('moves system messages to the top-level field', async () => {
+    reply = () => json({ content: [{ type: 'text', text: 'ls ' }, { type: 'tool_use' }, { type: 'text', text: '-la' }] })
+    const content = await provider('anthropic').complete({ model: 'claude-3-5-haiku-latest', messages: MESSAGES, apiKey: 'ant-key', endpoint })
+
+    expect(content).toBe('ls -la')
+    const request = lastRequest()
+    expect(request.path).toBe('/v1/messages')
+    expect(request.headers.get('x-api-key')).toBe('ant-key')
+    expect(request.headers.get('anthropic-version')).toBe('2023-06-01')
+    expect(request.body.system).toBe('Reply with a shell command')
+    expect(request.body.messages).toEqual([{ role: 'user', content: 'list files' }])
+    expect(request.body.max_tokens).toBeGreaterThan(0)
+  })
+
+  it('streams text deltas until message_stop', async () => {
+    reply = () => sse([
+      { type: 'message_start' },
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: 'ls' } },
+      { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{}' } },
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: ' -la' } },
+      { type: 'message_stop' },
+    ])
+    const chunks = await collect(provider('anthropic').stream({ model: 'claude-3-5-haiku-latest', messages: MESSAGES, apiKey: 'ant-key', endpoint }))
+
+    expect(chunks).toEqual(['ls', ' -la'])
+    expect(lastRequest().body.stream).toBe(true)
+  })
+
+  it('raises stream error events', async () => {
+    reply = () => sse([{ type: 'error', error: { message: 'Overloaded' } }])
+    await expect(collect(provider('anthropic').stream({ model: 'claude-3-5-haiku-latest', messages: MESSAGES, apiKey: 'ant-key', endpoint }))).rejects.toThrow('Overloaded')
+  })
+
+  it('lists models', async () => {
+    reply = () => json({ data: [{ id: 'claude-3-5-sonnet-latest' }, { id: 3 }] })
+    const models = await provider('anthropic').listModels?.({ apiKey: 'ant-key', endpoint })
+
+    expect(models).toEqual(['claude-3-5-sonnet-latest'])
+    expect(lastRequest().path).toBe('/v1/models?limit=1000')
+  })
+})
+
+describe('google', () => {
+  it('sends a system instruction and model roles', async () => {
+    reply = () => json({ candidates: [{ content: { parts: [{ text: 'ls' }, { text: ' -la' }] } }] })
+    const messages: ChatMessage[] = [...MESSAGES, { role: 'assistant', content: 'ls' }, { role: 'user', content: 'with hidden files' }]
+    const content = await provider('google').complete({ model: 'gemini-1.5-flash', messages, apiKey: 'goog-key', endpoint })
+
+    expect(content).toBe('ls -la')
+    const request = lastRequest()
+    expect(request.path).toBe('/v1/models/gemini-1.5-flash:generateContent')
+    expect(request.headers.get('x-goog-api-key')).toBe('goog-key')
+    expect(request.body.systemInstruction).toEqual({ parts: [{ text: 'Reply with a shell command' }] })
+    expect(request.body.contents.map((content: { role: string }) => content.role)).toEqual(['user', 'model', 'user'])
+  })
+
+  it('streams partial candidates', async () => {
+    reply = () => sse([
+      { candidates: [{ content: { parts: [{ text: 'ls' }] } }] },
+      { candidates: [{ content: { parts: [{ text: ' -la' }] } }] },
+    ])
+    const chunks = await collect(provider('google').stream({ model: 'gemini-1.5-flash', messages: MESSAGES, apiKey: 'goog-key', endpoint }))
+
+    expect(chunks).toEqual(['ls', ' -la'])
+    expect(lastRequest().path).toBe('/v1/models/gemini-1.5-flash:streamGenerateContent?alt=sse')
+  })
+
+  it('lists only models that support generateContent', async () => {
+    reply = () => json({
+      models: [
+        { name: 'models/gemini-1.5-pro', supportedGenerationMethods: ['generateContent', 'countTokens'] },
+        { name: 'models/text-embedding-004', supportedGenerationMethods: ['embedContent'] },
+      ],
+    })
+    const models = await provider('google').listModels?.({ apiKey: 'goog-key', endpoint })
+
+    expect(models).toEqual(['gemini-1.5-pro'])
+  })
+})
+
+describe('cohere', () => {
+  it('joins the text blocks of a v2 chat reply', async () => {
+    reply = () => json({ message: { content: [{ type: 'text', text: 'ls -la' }] } })
+    const content = await provider('cohere').complete({ model: 'command-r', messages: MESSAGES, apiKey: 'co-key', endpoint })
+
+    expect(content).toBe('ls -la')
+    const request = lastRequest()
+    expect(request.path).toBe('/v1/chat')
+    expect(request.headers.get('authorization')).toBe('Bearer co-key')
+    expect(request.body.messages).toEqual(MESSAGES)
+  })
+
+  it('streams content-delta events until message-end', async () => {
+    reply = () => sse([
+      { type: 'message-start' },
+      { type: 'content-delta', delta: { message: { content: { text: 'ls' } } } },
+      { type: 'content-delta', delta: { message: { content: { text: ' -la' } } } },
+      { type: 'message-end' },
+    ])
+    const chunks = await collect(provider('cohere').stream({ model: 'command-r', messages: MESSAGES, apiKey: 'co-key', endpoint }))
+
+    expect(chunks).toEqual(['ls', ' -la'])
+  })
+
+  it('lists models from the v1 endpoint', async () => {
+    reply = () => json({ models: [{ name: 'command-r' }, { name: 'command-r-plus' }] })
+    const models = await provider('cohere').listModels?.({ apiKey: 'co-key', endpoint: endpoint.replace(/\/v1$/, '/v2') })
+
+    expect(models).toEqual(['command-r', 'command-r-plus'])
+    expect(lastRequest().path).toBe('/v1/models?endpoint=chat&page_size=1000')
+  })
+})
+
+describe('ollama', () => {
+  it('posts to the native chat API without a key', async () => {
+    reply = () => json({ message: { content: 'ls -la' }, done: true })
+    const content = await provider('ollama').complete({ model: 'llama3.2', messages: MESSAGES, apiKey: '', endpoint })
+
+    expect(content).toBe('ls -la')
+    const request = lastRequest()
+    expect(request.path).toBe('/v1/api/chat')
+    expect(request.headers.get('authorization')).toBeNull()
+    expect(request.body).toEqual({ model: 'llama3.2', messages: MESSAGES, stream: false, options: { temperature: 0 } })
+  })
+
+  it('streams newline-delimited chunks until done', async () => {
+    reply = () => ndjson([
+      { message: { content: 'ls' }, done: false },
+      { message: { content: ' -la' }, done: false },
+      { message: { content: '' }, done: true },
+    ])
+    const chunks = await collect(provider('ollama').stream({ model: 'llama3.2', messages: MESSAGES, apiKey: '', endpoint }))
+
+    expect(chunks).toEqual(['ls', ' -la'])
+  })
+
+  it('raises errors sent in the stream', async () => {
+    reply = () => ndjson([{ error: 'model "llama3.2" not found' }])
+    await expect(collect(provider('ollama').stream({ model: 'llama3.2', messages: MESSAGES, apiKey: '', endpoint }))).rejects.toThrow('not found')
+  })
+
+  it('lists the pulled models', async () => {
+    reply = () => json({ models: [{ name: 'llama3.2:latest' }, { name: 'qwen2.5-coder:7b' }] })
+    const models = await provider('ollama').listModels?.({ apiKey: '', endpoint })
+
+    expect(models).toEqual(['llama3.2:latest', 'qwen2.5-coder:7b'])
+    expect(lastRequest().path).toBe('/v1/api/tags')
+  })
+})
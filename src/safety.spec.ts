@@ -0,0 +1,134 @@
+import * as os from 'node:os'
+import { describe, expect, it, spyOn } from 'bun:test'
+import { analyzeCommand, analyzeSegments, getShellFamily, listPrograms, redirectTargets, splitCommandLine, splitSegments } from './safety'
+
+const BASH = { shellName: 'bash' }
+const POWERSHELL = { shellName: 'pwsh' }
+const CMD = { shellName: 'cmd' }
+
+describe('getShellFamily', () => {
+  it('maps shell names to their syntax', () => {
+    expect(getShellFamily('zsh')).toBe('posix')
+    expect(getShellFamily('PowerShell')).toBe('powershell')
+    expect(getShellFamily('pwsh')).toBe('powershell')
+    expect(getShellFamily('cmd')).toBe('cmd')
+  })
+})
+
+describe('splitCommandLine', () => {
+  it('splits at control operators', () => {
+    expect(splitCommandLine('make && make test || echo failed; ls | wc -l & wait')).toEqual(['make', 'make test', 'echo failed', 'ls', 'wc -l', 'wait'])
+  })
+
+  it('keeps operators inside quotes', () => {
+    expect(splitCommandLine('echo "a | b" \'c && d\'')).toEqual(['echo "a | b" \'c && d\''])
+    expect(splitCommandLine('echo \\; done')).toEqual(['echo \\; done'])
+  })
+
+  it('does not split at redirections', () => {
+    expect(splitCommandLine('ls -la > out.txt 2>&1')).toEqual(['ls -la > out.txt 2>&1'])
+    expect(splitCommandLine('make &> build.log >| other.log')).toEqual(['make &> build.log >| other.log'])
+  })
+})
+
+describe('splitSegments', () => {
+  it('drops wrappers, assignments, quotes and descriptor redirections', () => {
+    expect(splitSegments('sudo LANG=C /usr/bin/grep -r "some text" . 2>&1')).toEqual([['grep', '-r', 'some text', '.']])
+  })
+
+  it('keeps Windows paths intact', () => {
+    expect(splitSegments('Remove-Item C:\\ -Recurse')).toEqual([['Remove-Item', 'C:\\', '-Recurse']])
+  })
+})
+
+describe('listPrograms', () => {
+  it('lists each program once', () => {
+    expect(listPrograms('git status && git diff | less')).toEqual(['git', 'less'])
+    expect(listPrograms('ls -la > out.txt 2>&1')).toEqual(['ls'])
+    expect(listPrograms('echo "a | b"')).toEqual(['echo'])
+  })
+})
+
+describe('redirectTargets', () => {
+  it('lists the files written through > and >>', () => {
+    expect(redirectTargets('echo hi > /etc/motd 2>&1 >> "log.txt"')).toEqual(['/etc/motd', 'log.txt'])
+  })
+})
+
+describe('analyzeCommand', () => {
+  it('rates everyday commands low', () => {
+    expect(analyzeCommand('ls -la', BASH)).toEqual({ level: 'low', reasons: [] })
+    expect(analyzeCommand('rm -r build', BASH).level).toBe('low')
+  })
+
+  it('rates recursive deletes of the root, home and system directories high', () => {
+    for (const command of ['rm -rf /', 'sudo rm -rf /*', 'rm -r -f ~', 'rm -rf $HOME', 'rm -rf /*/', 'find / -delete', 'find -L ~ -name x -delete'])
+      expect(analyzeCommand(command, BASH).level).toBe('high')
+    expect(analyzeCommand('rm -r -f /usr', BASH).reasons).toContain('Recursively deletes a system directory')
+  })
+
+  it('rates a recursive delete of the expanded home directory or a parent of it high', () => {
+    const homedir = spyOn(os, 'homedir').mockReturnValue('/srv/people/me')
+    try {
+      for (const command of ['rm -rf /srv/people/me', 'rm -rf /srv/people/me/', 'rm -rf /srv/people/me/*', 'rm -r /srv/people', 'find /srv/people/me -delete'])
+        expect(analyzeCommand(command, BASH).reasons).toContain('Recursively deletes the root or home directory')
+      expect(analyzeCommand('rm -rf /srv/people/me/project/build', BASH).level).toBe('medium')
+      expect(analyzeCommand('rm -rf /srv/people/metrics', BASH).level).toBe('medium')
+    }
+    finally {
+      homedir.mockRestore()
+    }
+  })
+
+  it('treats /usr/local as the user\'s own', () => {
+    expect(analyzeCommand('rm -rf /usr/local/lib/foo', BASH)).toEqual({ level: 'medium', reasons: ['Recursive forced delete'] })
+    expect(analyzeCommand('cp tool /usr/local/bin/', BASH).level).toBe('low')
+    expect(analyzeCommand('cp tool /usr/bin/', BASH).level).toBe('high')
+  })
+
+  it('rates other forced recursive deletes medium', () => {
+    expect(analyzeCommand('rm -rf node_modules', BASH)).toEqual({ level: 'medium', reasons: ['Recursive forced delete'] })
+    expect(analyzeCommand('find . -name "*.tmp" -delete', BASH).level).toBe('low')
+  })
+
+  it('rates destructive POSIX commands high', () => {
+    expect(analyzeCommand('dd if=image.iso of=/dev/sda', BASH).reasons).toEqual(['Writes raw data to a block device'])
+    expect(analyzeCommand('mkfs.ext4 /dev/sdb1', BASH).reasons).toEqual(['Formats a filesystem'])
+    expect(analyzeCommand(':(){ :|:& };:', BASH).reasons).toEqual(['Fork bomb'])
+    expect(analyzeCommand('curl -fsSL https://example.com/install.sh | sudo bash', BASH).reasons).toEqual(['Pipes a downloaded script straight into a shell'])
+    expect(analyzeCommand('chmod -R 777 .', BASH).reasons).toEqual(['Makes files world-writable recursively'])
+    expect(analyzeCommand('echo "127.0.0.1 dev" | sudo tee -a /etc/hosts', BASH).reasons).toEqual(['Writes to a system path'])
+  })
+
+  it('applies only the rules of the detected shell', () => {
+    expect(analyzeCommand('Remove-Item C:\\ -Recurse -Force', POWERSHELL).level).toBe('high')
+    expect(analyzeCommand('Remove-Item .\\dist -Recurse -Force', POWERSHELL)).toEqual({ level: 'medium', reasons: ['Recursive forced delete'] })
+    expect(analyzeCommand('iwr https://example.com/a.ps1 | iex', POWERSHELL).level).toBe('high')
+    expect(analyzeCommand('rd /s /q C:\\', CMD).level).toBe('high')
+    expect(analyzeCommand('format D:', CMD).level).toBe('high')
+    expect(analyzeCommand('format D:', BASH).level).toBe('low')
+  })
+
+  it('rates history-rewriting git commands medium in any shell', () => {
+    expect(analyzeCommand('git push --force origin main', CMD).level).toBe('medium')
+    expect(analyzeCommand('git push origin +main', BASH).level).toBe('medium')
+    expect(analyzeCommand('git reset --hard HEAD~1', POWERSHELL).reasons).toEqual(['Discards uncommitted changes'])
+  })
+
+  it('keeps the highest level of every matching rule', () => {
+    const assessment = analyzeCommand('git reset --hard && rm -rf /', BASH)
+
+    expect(assessment.level).toBe('high')
+    expect(assessment.reasons).toContain('Discards uncommitted changes')
+    expect(assessment.reasons).toContain('Recursively deletes the root or home directory')
+  })
+})
+
+describe('analyzeSegments', () => {
+  it('rates each simple command on its own', () => {
+    expect(analyzeSegments('cd /tmp && rm -rf cache', BASH)).toEqual([
+      { segment: 'cd /tmp', assessment: { level: 'low', reasons: [] } },
+      { segment: 'rm -rf cache', assessment: { level: 'medium', reasons: ['Recursive forced delete'] } },
+    ])
+  })
+})
@@ -0,0 +1,411 @@
+import * as os from 'node:os'
+import * as path from 'node:path'
+import * as process from 'node:process'
+import { logger } from './logger'
+import type { EnvironmentInfo, RiskAssessment, RiskLevel } from './types'
+
+export type ShellFamily = 'posix' | 'powershell' | 'cmd'
+
+interface SafetyRule {
+  level: Exclude<RiskLevel, 'low'>
+  reason: string
+  shells?: ShellFamily[]
+  test: (command: string, segments: string[][]) => boolean
+}
+
+/**
+ * Error raised when a command is refused because of its risk level
+ */
+export class SafetyError extends Error {
+  constructor(message: string, public readonly assessment: RiskAssessment) {
+    super(message)
+    this.name = 'SafetyError'
+  }
+}
+
+// Tokens that only wrap the real command, e.g. `sudo rm -rf /`
+const COMMAND_PREFIXES = new Set(['sudo', 'doas', 'env', 'command', 'exec', 'nohup', 'time', 'nice'])
+
+const POSIX_ROOT_OR_HOME = /^(?:\/+(?:\*\/*)?|~\/?\*?|\$\{?HOME\}?\/?\*?|\/(?:home|Users|root)\/?\*?)$/
+// /usr/local belongs to the user's own installs, it is no more a system path than the home directory
+const POSIX_SYSTEM_PATH = /^\/(?:etc|bin|sbin|usr(?!\/local(?:\/|$))|lib|lib32|lib64|boot|sys|proc|System|Library)(?:\/|$)/
+const BLOCK_DEVICE = /^\/dev\/(?:sd|hd|vd|xvd|nvme|mmcblk|disk|rdisk|md|dm-|loop)/
+const WINDOWS_ROOT_OR_HOME = /^(?:[a-z]:\\?\*?|\$env:(?:USERPROFILE|SystemDrive|HOMEDRIVE)\\?\*?|%(?:USERPROFILE|SystemDrive|HOMEDRIVE)%\\?\*?|\$HOME\\?\*?|~\\?\*?)$/i
+const WINDOWS_SYSTEM_PATH = /^(?:(?:[a-z]:)?\\(?:windows|program files(?: \(x86\))?|programdata)|%(?:SystemRoot|windir)%|\$env:(?:SystemRoot|windir)|HKLM:?)(?:\\|$)/i
+
+/**
+ * Map a detected shell name to the family whose syntax it follows
+ */
+export function getShellFamily(shellName: string): ShellFamily {
+  const name = shellName.toLowerCase()
+  if (name === 'powershell' || name === 'pwsh')
+    return 'powershell'
+  if (name === 'cmd')
+    return 'cmd'
+  return 'posix'
+}
+
+// Duplicated or closed file descriptors such as `2>&1`, `>&2` and `<&-`, they name no file and no program
+const DESCRIPTOR_REDIRECT = /^\d*[<>]&(?:\d+|-)$/
+
+// Cut a command line wherever `breaksAt` finds a separator outside quotes, which is left out of the pieces
+// - A backslash only escapes quotes and operators, Windows paths such as `C:\ ` keep theirs
+function splitOutsideQuotes(command: string, breaksAt: (command: string, index: number) => number): string[] {
+  const pieces: string[] = []
+  let current = ''
+  let quote: string | undefined
+  for (let index = 0; index < command.length; index++) {
+    const char = command[index]
+    if (quote) {
+      current += char
+      if (char === quote)
+        quote = undefined
+      else if (char === '\\' && quote === '"' && command[index + 1] === '"')
+        current += command[++index]
+      continue
+    }
+    if (char === '\'' || char === '"') {
+      quote = char
+      current += char
+      continue
+    }
+    if (char === '\\' && /['";|&]/.test(command[index + 1] || '')) {
+      current += char + command[++index]
+      continue
+    }
+    const length = breaksAt(command, index)
+    if (length > 0) {
+      pieces.push(current)
+      current = ''
+      index += length - 1
+      continue
+    }
+    current += char
+  }
+  pieces.push(current)
+  return pieces
+}
+
+// Length of the operator that separates simple commands at `index`, 0 when there is none
+// - `&` and `|` next to a redirection, as in `2>&1`, `&>` or `>|`, are part of it
+function operatorAt(command: string, index: number): number {
+  const char = command[index]
+  const previous = command[index - 1]
+  if (char === '&' && (previous === '>' || previous === '<' || command[index + 1] === '>'))
+    return 0
+  if (char === '|' && previous === '>')
+    return 0
+  if ((char === '&' || char === '|') && command[index + 1] === char)
+    return 2
+  return ';|&\n'.includes(char) ? 1 : 0
+}
+
+function whitespaceAt(command: string, index: number): number {
+  return /\s/.test(command[index]) ? 1 : 0
+}
+
+// Remove the quotes around and inside a token, `"a b"` and `a"b"` both read as their text
+function stripQuotes(token: string): string {
+  return token.replace(/(['"])(.*?)\1/g, '$2')
+}
+
+/**
+ * Split a command line into its simple commands, as written
+ * - Operators inside quotes do not split, neither do the `&` and `|` of redirections such as `2>&1`
+ */
+export function splitCommandLine(command: string): string[] {
+  return splitOutsideQuotes(command, operatorAt).map(segment => segment.trim()).filter(Boolean)
+}
+
+/**
+ * Split a command line into simple commands and their tokens
+ * - This is a static approximation, subshells and expansions are not parsed
+ * - Descriptor redirections such as `2>&1` are dropped, quotes are removed from the tokens
+ */
+export function splitSegments(command: string): string[][] {
+  return splitCommandLine(command)
+    .map((segment) => {
+      const tokens = splitOutsideQuotes(segment, whitespaceAt)
+        .filter(token => token && !DESCRIPTOR_REDIRECT.test(token))
+        .map(stripQuotes)
+      while (tokens.length > 0 && (COMMAND_PREFIXES.has(tokens[0]) || /^\w+=/.test(tokens[0])))
+        tokens.shift()
+      if (tokens.length > 0)
+        tokens[0] = tokens[0].replace(/^.*[/\\]/, '').replace(/\.exe$/i, '')
+      return tokens
+    })
+    .filter(tokens => tokens.length > 0)
+}
+
+/**
+ * List the programs a command line runs, without wrappers such as sudo or variable assignments
+ */
+export function listPrograms(command: string): string[] {
+  return [...new Set(splitSegments(command).map(tokens => tokens[0]))]
+}
+
+function isProgram(tokens: string[], ...names: string[]): boolean {
+  return names.includes(tokens[0].toLowerCase())
+}
+
+// True when a short flag cluster such as `-rf` contains the letter, or the long flag is present
+function hasFlag(tokens: string[], letters: string, long?: string): boolean {
+  return tokens.some(token =>
+    (/^-[a-z]+$/i.test(token) && [...letters].some(letter => token.includes(letter)))
+    || (long !== undefined && token === long),
+  )
+}
+
+function hasSwitch(tokens: string[], ...names: string[]): boolean {
+  const lowered = names.map(name => name.toLowerCase())
+  return tokens.some(token => lowered.includes(token.toLowerCase()))
+}
+
+/**
+ * The operands of a simple command, without its flags and cmd-style switches
+ */
+export function argumentsOf(tokens: string[]): string[] {
+  return tokens.slice(1).filter(token => !token.startsWith('-') && !/^\/[a-z]$/i.test(token))
+}
+
+/**
+ * Files a command line writes to through `>` and `>>`
+ */
+export function redirectTargets(command: string): string[] {
+  return [...command.matchAll(/(?<![0-9&])>{1,2}\s*(['"]?)([^\s'"]+)\1/g)].map(match => match[2])
+}
+
+// What a recursive `rm` or `find -delete` removes, empty for any other command
+// - The starting points of find are the operands before its first expression
+function recursiveDeleteTargets(tokens: string[]): string[] {
+  if (isProgram(tokens, 'rm'))
+    return hasFlag(tokens, 'rR', '--recursive') ? argumentsOf(tokens) : []
+  if (isProgram(tokens, 'find') && tokens.includes('-delete')) {
+    const targets: string[] = []
+    for (const token of tokens.slice(1)) {
+      if (/^-[HLP]$/.test(token))
+        continue
+      if (token.startsWith('-') || token === '(' || token === '!')
+        break
+      targets.push(token)
+    }
+    return targets
+  }
+  return []
+}
+
+// True when deleting the path removes the home directory or everything in it
+// - `~`, $HOME and relative paths are resolved, so the expanded form a restored reply holds counts as well
+function coversHomeDirectory(target: string): boolean {
+  const home = os.homedir()
+  const expanded = target.replace(/^(?:~|\$\{?HOME\}?)(?=\/|$)/, home).replace(/\/\*?$/, '') || '/'
+  const resolved = path.posix.resolve(process.cwd(), expanded)
+  return resolved === home || home.startsWith(`${resolved.replace(/\/$/, '')}/`)
+}
+
+const RULES: SafetyRule[] = [
+  // POSIX shells
+  {
+    level: 'high',
+    reason: 'Recursively deletes the root or home directory',
+    shells: ['posix'],
+    test: (_, segments) => segments.some(tokens =>
+      recursiveDeleteTargets(tokens).some(arg => POSIX_ROOT_OR_HOME.test(arg) || coversHomeDirectory(arg))),
+  },
+  {
+    level: 'high',
+    reason: 'Recursively deletes a system directory',
+    shells: ['posix'],
+    test: (_, segments) => segments.some(tokens => recursiveDeleteTargets(tokens).some(arg => POSIX_SYSTEM_PATH.test(arg))),
+  },
+  {
+    level: 'medium',
+    reason: 'Recursive forced delete',
+    shells: ['posix'],
+    test: (_, segments) => segments.some(tokens =>
+      isProgram(tokens, 'rm') && hasFlag(tokens, 'rR', '--recursive') && hasFlag(tokens, 'f', '--force')),
+  },
+  {
+    level: 'high',
+    reason: 'Writes raw data to a block device',
+    shells: ['posix'],
+    test: (command, segments) =>
+      segments.some(tokens => isProgram(tokens, 'dd') && tokens.some(token => token.startsWith('of=') && BLOCK_DEVICE.test(token.slice(3))))
+      || redirectTargets(command).some(target => BLOCK_DEVICE.test(target)),
+  },
+  {
+    level: 'high',
+    reason: 'Formats a filesystem',
+    shells: ['posix'],
+    test: (_, segments) => segments.some(tokens => /^mkfs(?:\.|$)/.test(tokens[0]) || isProgram(tokens, 'mke2fs', 'wipefs')),
+  },
+  {
+    level: 'high',
+    reason: 'Fork bomb',
+    shells: ['posix'],
+    test: command => /(\w+|:)\s*\(\)\s*\{\s*\1\s*\|\s*\1\s*&\s*\}\s*(?:;\s*)?\1/.test(command),
+  },
+  {
+    level: 'high',
+    reason: 'Pipes a downloaded script straight into a shell',
+    shells: ['posix'],
+    test: command => /\b(?:curl|wget|fetch)\b[^|]*\|\s*(?:sudo\s+)?(?:ba|z|da|k|fi)?sh\b/.test(command)
+      || /\b(?:ba|z|da|k|fi)?sh\s+<\(\s*(?:curl|wget)\b/.test(command),
+  },
+  {
+    level: 'high',
+    reason: 'Makes files world-writable recursively',
+    shells: ['posix'],
+    test: (_, segments) => segments.some(tokens =>
+      isProgram(tokens, 'chmod') && hasFlag(tokens, 'R', '--recursive') && tokens.some(token => /^(?:0?777|a\+rwx|ugo\+rwx)$/.test(token))),
+  },
+  {
+    level: 'high',
+    reason: 'Writes to a system path',
+    shells: ['posix'],
+    test: (command, segments) =>
+      redirectTargets(command).some(target => POSIX_SYSTEM_PATH.test(target))
+      || segments.some(tokens =>
+        (isProgram(tokens, 'tee') && argumentsOf(tokens).some(arg => POSIX_SYSTEM_PATH.test(arg)))
+        || (isProgram(tokens, 'cp', 'mv', 'install', 'ln') && POSIX_SYSTEM_PATH.test(tokens[tokens.length - 1]))
+        || (isProgram(tokens, 'sed') && hasFlag(tokens, 'i', '--in-place') && argumentsOf(tokens).some(arg => POSIX_SYSTEM_PATH.test(arg)))),
+  },
+
+  // PowerShell
+  {
+    level: 'high',
+    reason: 'Recursively deletes a drive root or the home directory',
+    shells: ['powershell'],
+    test: (_, segments) => segments.some(tokens =>
+      isProgram(tokens, 'remove-item', 'rm', 'del', 'ri', 'rd', 'rmdir', 'erase')
+      && hasSwitch(tokens, '-Recurse', '-r')
+      && argumentsOf(tokens).some(arg => WINDOWS_ROOT_OR_HOME.test(arg))),
+  },
+  {
+    level: 'medium',
+    reason: 'Recursive forced delete',
+    shells: ['powershell'],
+    test: (_, segments) => segments.some(tokens =>
+      isProgram(tokens, 'remove-item', 'rm', 'del', 'ri', 'rd', 'rmdir', 'erase')
+      && hasSwitch(tokens, '-Recurse', '-r')
+      && hasSwitch(tokens, '-Force')),
+  },
+  {
+    level: 'high',
+    reason: 'Formats or wipes a disk',
+    shells: ['powershell'],
+    test: (_, segments) => segments.some(tokens => isProgram(tokens, 'format-volume', 'clear-disk', 'initialize-disk', 'remove-partition')),
+  },
+  {
+    level: 'high',
+    reason: 'Runs a downloaded script through Invoke-Expression',
+    shells: ['powershell'],
+    test: command => /\b(?:iwr|irm|curl|wget|invoke-webrequest|invoke-restmethod)\b[^|]*\|\s*(?:iex|invoke-expression)\b/i.test(command)
+      || /\b(?:iex|invoke-expression)\b.+\b(?:downloadstring|iwr|irm|invoke-webrequest|invoke-restmethod)\b/i.test(command),
+  },
+  {
+    level: 'high',
+    reason: 'Writes to a system path or the machine registry',
+    shells: ['powershell'],
+    test: (command, segments) =>
+      redirectTargets(command).some(target => WINDOWS_SYSTEM_PATH.test(target))
+      || segments.some(tokens =>
+        isProgram(tokens, 'set-content', 'add-content', 'out-file', 'new-item', 'copy-item', 'move-item', 'set-itemproperty', 'remove-itemproperty', 'cp', 'copy', 'mv', 'move')
+        && argumentsOf(tokens).some(arg => WINDOWS_SYSTEM_PATH.test(arg))),
+  },
+
+  // cmd.exe
+  {
+    level: 'high',
+    reason: 'Recursively deletes a drive root or the home directory',
+    shells: ['cmd'],
+    test: (_, segments) => segments.some(tokens =>
+      ((isProgram(tokens, 'rd', 'rmdir') && hasSwitch(tokens, '/s')) || (isProgram(tokens, 'del', 'erase') && hasSwitch(tokens, '/s')))
+      && argumentsOf(tokens).some(arg => WINDOWS_ROOT_OR_HOME.test(arg))),
+  },
+  {
+    level: 'medium',
+    reason: 'Recursive delete without confirmation',
+    shells: ['cmd'],
+    test: (_, segments) => segments.some(tokens =>
+      isProgram(tokens, 'rd', 'rmdir', 'del', 'erase') && hasSwitch(tokens, '/s') && hasSwitch(tokens, '/q')),
+  },
+  {
+    level: 'high',
+    reason: 'Formats or repartitions a disk',
+    shells: ['cmd'],
+    test: (_, segments) => segments.some(tokens => isProgram(tokens, 'format', 'diskpart')),
+  },
+  {
+    level: 'high',
+    reason: 'Writes to a system path or the machine registry',
+    shells: ['cmd'],
+    test: (command, segments) =>
+      redirectTargets(command).some(target => WINDOWS_SYSTEM_PATH.test(target))
+      || segments.some(tokens =>
+        (isProgram(tokens, 'copy', 'xcopy', 'move', 'robocopy') && WINDOWS_SYSTEM_PATH.test(tokens[tokens.length - 1]))
+        || (isProgram(tokens, 'reg') && /^(?:delete|add|import)$/i.test(tokens[1] || '') && /^HKLM|^HKEY_LOCAL_MACHINE/i.test(tokens[2] || ''))),
+  },
+
+  // Any shell
+  {
+    level: 'medium',
+    reason: 'Force-pushes and may overwrite remote history',
+    test: (_, segments) => segments.some(tokens =>
+      isProgram(tokens, 'git') && tokens[1] === 'push' && (hasSwitch(tokens, '--force', '-f') || tokens.some(token => /^\+[^+]/.test(token)))),
+  },
+  {
+    level: 'medium',
+    reason: 'Discards uncommitted changes',
+    test: (_, segments) => segments.some(tokens =>
+      isProgram(tokens, 'git')
+      && ((tokens[1] === 'reset' && hasSwitch(tokens, '--hard')) || (tokens[1] === 'clean' && hasFlag(tokens, 'f', '--force')))),
+  },
+]
+
+const LEVEL_ORDER: RiskLevel[] = ['low', 'medium', 'high']
+
+/**
+ * Statically classify how risky a command is for the detected shell
+ */
+export function analyzeCommand(command: string, info: Pick<EnvironmentInfo, 'shellName'>): RiskAssessment {
+  const family = getShellFamily(info.shellName)
+  const segments = splitSegments(command)
+  const assessment: RiskAssessment = { level: 'low', reasons: [] }
+
+  for (const rule of RULES) {
+    if (rule.shells && !rule.shells.includes(family))
+      continue
+    if (!rule.test(command, segments))
+      continue
+
+    assessment.reasons.push(rule.reason)
+    if (LEVEL_ORDER.indexOf(rule.level) > LEVEL_ORDER.indexOf(assessment.level))
+      assessment.level = rule.level
+  }
+
+  return assessment
+}
+
+/**
+ * Classify each simple command of a command line on its own
+ * - Rules that span several segments, such as `curl | sh`, only match on the whole command
+ */
+export function analyzeSegments(
+  command: string,
+  info: Pick<EnvironmentInfo, 'shellName'>,
+): { segment: string, assessment: RiskAssessment }[] {
+  return splitCommandLine(command)
+    .map(segment => ({ segment, assessment: analyzeCommand(segment, info) }))
+}
+
+/**
+ * Print a risk assessment, staying silent for low-risk commands
+ */
+export function displayRiskAssessment(assessment: RiskAssessment): void {
+  if (assessment.level === 'low')
+    return
+
+  const log = assessment.level === 'high' ? logger.error : logger.info
+  log.tag(`Risk: ${assessment.level}`).data(assessment.reasons).message('Review this command carefully before running it').appendDivider().print()
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'bun:test'
+import { CONFIG_VERSION, ConfigError, isValidProfileName, migrateConfig, validateConfigFields, validateResolvedConfig } from './schema'
+import { DEFAULT_CONFIG } from './types'
+
+describe('migrateConfig', () => {
+  it('upgrades an unversioned file', () => {
+    const { config, fromVersion, notes } = migrateConfig({ source: 'init', HISTORY_ENABLE: 'false', API_PROVIDER: 'anthropic', API_KEY: 'env:ANTHROPIC_API_KEY' })
+
+    expect(fromVersion).toBe(0)
+    expect(notes).toEqual([])
+    expect(config).toEqual({
+      HISTORY_ENABLE: false,
+      API_PROVIDER: 'anthropic',
+      API_KEYS: { anthropic: 'env:ANTHROPIC_API_KEY' },
+      configVersion: CONFIG_VERSION,
+    })
+  })
+
+  it('drops a plaintext key and says how to store it', () => {
+    const { config, notes } = migrateConfig({ configVersion: 1, API_KEY: 'sk-plaintext' })
+
+    expect(config).toEqual({ configVersion: 2 })
+    expect(notes).toEqual(['The plaintext API_KEY is no longer read, store it with `shellman config key set openai`'])
+  })
+
+  it('keeps a reference already saved for the provider', () => {
+    const { config } = migrateConfig({ configVersion: 1, API_KEY: 'env:OTHER', API_KEYS: { openai: 'store:openai' } })
+
+    expect(config.API_KEYS).toEqual({ openai: 'store:openai' })
+  })
+
+  it('leaves a current file alone', () => {
+    const raw = { configVersion: CONFIG_VERSION, API_MODEL: 'gpt-4o' }
+
+    expect(migrateConfig(raw)).toEqual({ config: raw, fromVersion: CONFIG_VERSION, notes: [] })
+  })
+
+  it('rejects invalid and newer versions', () => {
+    expect(() => migrateConfig({ configVersion: -1 })).toThrow(ConfigError)
+    expect(() => migrateConfig({ configVersion: CONFIG_VERSION + 1 })).toThrow('newer than this shellman supports')
+  })
+})
+
+describe('validateConfigFields', () => {
+  it('accepts valid fields', () => {
+    expect(validateConfigFields({
+      API_PROVIDER: 'ollama',
+      API_CUSTOM_ENDPOINT: 'http://localhost:11434',
+      REQUEST_RETRIES: 3,
+      REDACTION_RULES: { entropy: false, patterns: ['PRJ-\\d+'] },
+      PROFILES: { local: { API_PROVIDER: 'ollama', API_MODEL: 'llama3.2' } },
+    })).toEqual([])
+  })
+
+  it('reports each invalid or unknown field with its origin', () => {
+    const errors = validateConfigFields({
+      API_PROVIDER: 'nope',
+      API_CUSTOM_ENDPOINT: 'ftp://example.com',
+      REQUEST_RETRIES: 11,
+      REDACTION_RULES: { patterns: ['('] },
+      PROFILES: { local: { ACTIVE_PROFILE: 'x' } },
+      SOMETHING: true,
+    }, 'config.json')
+
+    expect(errors.map(error => error.field)).toEqual(['API_PROVIDER', 'API_CUSTOM_ENDPOINT', 'REQUEST_RETRIES', 'REDACTION_RULES', 'PROFILES', 'SOMETHING'])
+    expect(errors.every(error => error.origin === 'config.json')).toBe(true)
+    expect(errors[0].reason).toContain('unknown provider "nope"')
+    expect(errors[5].reason).toBe('unknown field')
+  })
+})
+
+describe('validateResolvedConfig', () => {
+  it('reports profiles that do not exist', () => {
+    const errors = validateResolvedConfig({
+      ...DEFAULT_CONFIG,
+      PROFILES: { work: {} },
+      ACTIVE_PROFILE: 'home',
+      DIRECTORY_PROFILES: { '/srv/work': 'work', '/srv/lab': 'lab' },
+    })
+
+    expect(errors.map(error => error.message)).toEqual([
+      'ACTIVE_PROFILE: profile "home" does not exist',
+      'DIRECTORY_PROFILES: profile "lab" for /srv/lab does not exist',
+    ])
+  })
+})
+
+describe('isValidProfileName', () => {
+  it('allows letters, digits, dots, dashes and underscores', () => {
+    expect(isValidProfileName('work-2.local_x')).toBe(true)
+    expect(isValidProfileName('a b')).toBe(false)
+    expect(isValidProfileName('../x')).toBe(false)
+  })
+})
@@ -0,0 +1,251 @@
+import { getProvider, listProviderNames } from './providers'
+import type { ShellManConfig } from './types'
+import { CONFIG_KEYS, DEFAULT_CONFIG } from './types'
+
+// Version written to config.json, bump it together with a new entry in MIGRATIONS
+export const CONFIG_VERSION = 2
+
+/**
+ * A single invalid configuration field
+ */
+export class ConfigValidationError extends Error {
+  constructor(
+    public readonly field: string,
+    public readonly reason: string,
+    public readonly origin?: string,
+  ) {
+    super(`${field}: ${reason}${origin ? ` (from ${origin})` : ''}`)
+    this.name = 'ConfigValidationError'
+  }
+}
+
+/**
+ * One or more invalid fields, raised instead of silently falling back to defaults
+ */
+export class ConfigError extends Error {
+  constructor(public readonly errors: ConfigValidationError[]) {
+    super(`Invalid configuration:\n${errors.map(error => `  ${error.message}`).join('\n')}`)
+    this.name = 'ConfigError'
+  }
+}
+
+type FieldValidator = (value: unknown) => string | undefined
+
+// Profile names are used on the command line and as credential store entries
+const PROFILE_NAME = /^[\w.-]+$/
+
+/**
+ * Check that a profile name only uses letters, digits, dots, dashes and underscores
+ */
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME.test(name)
+}
+
+function isRegExp(source: string): boolean {
+  try {
+    return Boolean(new RegExp(source))
+  }
+  catch {
+    return false
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+const isString: FieldValidator = value =>
+  typeof value === 'string' ? undefined : `expected a string, got ${JSON.stringify(value)}`
+
+// Type and format checks for each field, applied to every config layer on its own
+const FIELD_VALIDATORS: Record<string, FieldValidator> = {
+  configVersion: value =>
+    Number.isInteger(value) && (value as number) >= 0 ? undefined : `expected a non-negative integer, got ${JSON.stringify(value)}`,
+  API_KEY: isString,
+  API_PROVIDER: value =>
+    isString(value) ?? (getProvider(value as string) ? undefined : `unknown provider "${value}", expected one of ${listProviderNames().join(', ')}`),
+  API_MODEL: value =>
+    isString(value) ?? ((value as string).trim() ? undefined : 'must not be empty'),
+  API_CUSTOM_ENDPOINT: (value) => {
+    const error = isString(value)
+    if (error)
+      return error
+    try {
+      const url = new URL(value as string)
+      return url.protocol === 'http:' || url.protocol === 'https:' ? undefined : `expected an http or https URL, got "${value}"`
+    }
+    catch {
+      return `expected a URL, got "${value}"`
+    }
+  },
+  API_KEYS: (value) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value))
+      return `expected an object of provider names to key references, got ${JSON.stringify(value)}`
+    for (const [provider, reference] of Object.entries(value)) {
+      if (!getProvider(provider))
+        return `unknown provider "${provider}", expected one of ${listProviderNames().join(', ')}`
+      if (typeof reference !== 'string' || !reference)
+        return `expected a key reference for ${provider}, got ${JSON.stringify(reference)}`
+    }
+    return undefined
+  },
+  HISTORY_ENABLE: value =>
+    typeof value === 'boolean' ? undefined : `expected true or false, got ${JSON.stringify(value)}`,
+  REQUEST_TIMEOUT: value =>
+    typeof value === 'number' && value > 0 && Number.isFinite(value) ? undefined : `expected a positive number of seconds, got ${JSON.stringify(value)}`,
+  REQUEST_RETRIES: value =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 10 ? undefined : `expected a whole number from 0 to 10, got ${JSON.stringify(value)}`,
+  CACHE_TTL: value =>
+    typeof value === 'number' && value >= 0 && Number.isFinite(value) ? undefined : `expected a number of seconds, 0 to turn the cache off, got ${JSON.stringify(value)}`,
+  PROJECT_CONTEXT: value =>
+    typeof value === 'boolean' ? undefined : `expected true or false, got ${JSON.stringify(value)}`,
+  CONTEXT_TOKEN_BUDGET: value =>
+    Number.isInteger(value) && (value as number) > 0 ? undefined : `expected a positive whole number of tokens, got ${JSON.stringify(value)}`,
+  REDACT_PROMPTS: value =>
+    typeof value === 'boolean' ? undefined : `expected true or false, got ${JSON.stringify(value)}`,
+  REDACTION_RULES: (value) => {
+    if (!isObject(value))
+      return `expected an object of redaction rules, got ${JSON.stringify(value)}`
+    for (const [rule, setting] of Object.entries(value)) {
+      if (['secrets', 'entropy', 'identity'].includes(rule)) {
+        if (typeof setting !== 'boolean')
+          return `${rule}: expected true or false, got ${JSON.stringify(setting)}`
+        continue
+      }
+      if (!['internalDomains', 'patterns', 'allow'].includes(rule))
+        return `unknown rule "${rule}", expected secrets, entropy, identity, internalDomains, patterns or allow`
+      if (!Array.isArray(setting) || setting.some(item => typeof item !== 'string' || !item))
+        return `${rule}: expected a list of strings, got ${JSON.stringify(setting)}`
+      const invalid = rule === 'patterns' ? setting.find(pattern => !isRegExp(pattern)) : undefined
+      if (invalid !== undefined)
+        return `patterns: invalid regular expression ${JSON.stringify(invalid)}`
+    }
+    return undefined
+  },
+  PROFILES: (value) => {
+    if (!isObject(value))
+      return `expected an object of profile names to settings, got ${JSON.stringify(value)}`
+    for (const [name, profile] of Object.entries(value)) {
+      if (!isValidProfileName(name))
+        return `invalid profile name "${name}", use letters, digits, dots, dashes and underscores`
+      if (!isObject(profile))
+        return `expected settings for profile "${name}", got ${JSON.stringify(profile)}`
+      const unsupported = Object.keys(profile).find(field => !(CONFIG_KEYS as readonly string[]).includes(field))
+      if (unsupported)
+        return `profile "${name}": ${unsupported} cannot be set in a profile`
+      const [error] = validateConfigFields(profile)
+      if (error)
+        return `profile "${name}": ${error.message}`
+    }
+    return undefined
+  },
+  ACTIVE_PROFILE: value =>
+    isString(value) ?? (isValidProfileName(value as string) ? undefined : `invalid profile name "${value}"`),
+  DIRECTORY_PROFILES: (value) => {
+    if (!isObject(value))
+      return `expected an object of directories to profile names, got ${JSON.stringify(value)}`
+    const invalid = Object.entries(value).find(([, name]) => typeof name !== 'string' || !isValidProfileName(name))
+    return invalid ? `invalid profile name ${JSON.stringify(invalid[1])} for ${invalid[0]}` : undefined
+  },
+}
+
+/**
+ * Check the fields present in one config layer, returning an error per invalid or unknown field
+ */
+export function validateConfigFields(
+  values: Record<string, unknown>,
+  origin?: string,
+): ConfigValidationError[] {
+  const errors: ConfigValidationError[] = []
+  for (const [field, value] of Object.entries(values)) {
+    const validator = FIELD_VALIDATORS[field]
+    if (!validator) {
+      errors.push(new ConfigValidationError(field, 'unknown field', origin))
+      continue
+    }
+    if (value === undefined)
+      continue
+    const reason = validator(value)
+    if (reason)
+      errors.push(new ConfigValidationError(field, reason, origin))
+  }
+  return errors
+}
+
+/**
+ * Cross-field checks on the fully resolved configuration
+ * - API_MODEL is not checked against a list, providers add models faster than any list is updated,
+ *   `shellman doctor` warns about models the provider did not list instead
+ */
+export function validateResolvedConfig(config: ShellManConfig): ConfigValidationError[] {
+  const errors: ConfigValidationError[] = []
+  const profiles = config.PROFILES || {}
+  if (config.ACTIVE_PROFILE && !profiles[config.ACTIVE_PROFILE])
+    errors.push(new ConfigValidationError('ACTIVE_PROFILE', `profile "${config.ACTIVE_PROFILE}" does not exist`))
+  for (const [directory, name] of Object.entries(config.DIRECTORY_PROFILES || {})) {
+    if (!profiles[name])
+      errors.push(new ConfigValidationError('DIRECTORY_PROFILES', `profile "${name}" for ${directory} does not exist`))
+  }
+  return errors
+}
+
+interface ConfigMigration {
+  // Version the migration upgrades to
+  version: number
+  description: string
+  // Notes are shown to the user, for changes they have to finish themselves
+  migrate: (raw: Record<string, any>, notes: string[]) => Record<string, any>
+}
+
+// Ordered list of migrations, each one upgrades a file from version - 1
+const MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 1,
+    description: 'Drop the `source` label written by earlier releases and normalize HISTORY_ENABLE',
+    migrate: (raw) => {
+      const { source: _source, ...rest } = raw
+      if (rest.HISTORY_ENABLE === 'true' || rest.HISTORY_ENABLE === 'false')
+        rest.HISTORY_ENABLE = rest.HISTORY_ENABLE === 'true'
+      return rest
+    },
+  },
+  {
+    version: 2,
+    description: 'Move the single API_KEY into the per-provider API_KEYS map, which only holds references',
+    migrate: (raw, notes) => {
+      const { API_KEY, ...rest } = raw
+      if (typeof API_KEY !== 'string' || !API_KEY)
+        return rest
+      const provider = rest.API_PROVIDER || DEFAULT_CONFIG.API_PROVIDER
+      // A plaintext key is not carried over, the config file should only point at it
+      if (/^(?:env|cmd|store):/.test(API_KEY))
+        rest.API_KEYS = { [provider]: API_KEY, ...rest.API_KEYS }
+      else
+        notes.push(`The plaintext API_KEY is no longer read, store it with \`shellman config key set ${provider}\``)
+      return rest
+    },
+  },
+]
+
+/**
+ * Upgrade a raw config object to the current version
+ * - Files without `configVersion` are treated as version 0
+ * - Files written by a newer shellman are rejected rather than guessed at
+ * - Notes describe what the user still has to do, such as storing a dropped plaintext key
+ */
+export function migrateConfig(raw: Record<string, any>): { config: Record<string, any>, fromVersion: number, notes: string[] } {
+  const fromVersion = raw.configVersion === undefined ? 0 : raw.configVersion
+  if (!Number.isInteger(fromVersion) || fromVersion < 0)
+    throw new ConfigError([new ConfigValidationError('configVersion', `expected a non-negative integer, got ${JSON.stringify(raw.configVersion)}`)])
+  if (fromVersion > CONFIG_VERSION)
+    throw new ConfigError([new ConfigValidationError('configVersion', `version ${fromVersion} is newer than this shellman supports (${CONFIG_VERSION}), please upgrade`)])
+
+  let config = raw
+  const notes: string[] = []
+  for (const migration of MIGRATIONS) {
+    if (migration.version > fromVersion)
+      config = { ...migration.migrate(config, notes), configVersion: migration.version }
+  }
+
+  return { config, fromVersion, notes }
+}
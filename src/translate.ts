@@ -0,0 +1,172 @@
+import * as path from 'node:path'
+import { getCacheKey } from './cache'
+import { describeEnvironment } from './environment'
+import type { CompletionOptions } from './generator'
+import { GenerationError, parseJsonReply, requestCompletion, stripCodeFence } from './generator'
+import { logger } from './logger'
+import { buildSystemPrompt } from './prompts'
+import { analyzeCommand, displayRiskAssessment } from './safety'
+import type { ChatMessage, CommandTranslation, EnvironmentInfo, PromptTemplates, RiskAssessment, ShellDialect, ShellManConfig } from './types'
+import { SHELL_DIALECTS } from './types'
+
+// Other names for a dialect, as typed by users or reported by the shell detection
+const DIALECT_ALIASES: Record<string, ShellDialect> = {
+  pwsh: 'powershell',
+  ps: 'powershell',
+  dash: 'sh',
+  ash: 'sh',
+  ksh: 'sh',
+  posix: 'sh',
+}
+
+// How the prompt names each dialect, cmd only exists on Windows
+const DIALECT_LABELS: Record<ShellDialect, string> = {
+  bash: 'bash',
+  zsh: 'zsh',
+  fish: 'fish',
+  sh: 'POSIX sh',
+  powershell: 'PowerShell',
+  cmd: 'cmd.exe on Windows',
+}
+
+/**
+ * Error raised when a shell cannot be translated from or into
+ */
+export class TranslationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TranslationError'
+  }
+}
+
+/**
+ * Map a shell name or path to a supported dialect, undefined for shells translation does not cover
+ */
+export function resolveShellDialect(name: string): ShellDialect | undefined {
+  const base = path.basename(name.trim().toLowerCase().replace(/\\/g, '/')).replace(/\.exe$/, '')
+  if ((SHELL_DIALECTS as readonly string[]).includes(base))
+    return base as ShellDialect
+  return DIALECT_ALIASES[base]
+}
+
+/**
+ * Read a dialect given with a flag such as --from
+ */
+export function parseShellDialect(name: string, flag: string): ShellDialect {
+  const dialect = resolveShellDialect(name)
+  if (!dialect)
+    throw new TranslationError(`Unknown shell "${name}" for ${flag}, expected one of ${SHELL_DIALECTS.join(', ')}`)
+  return dialect
+}
+
+/**
+ * Read the --to dialect, which defaults to the detected shell when translation covers it
+ */
+export function getTargetDialect(to: string | undefined, info: EnvironmentInfo): ShellDialect {
+  if (to)
+    return parseShellDialect(to, '--to')
+  const detected = resolveShellDialect(info.shellName)
+  if (!detected)
+    throw new TranslationError(`Cannot translate into the detected shell ${info.shellName}, pass --to with one of ${SHELL_DIALECTS.join(', ')}`)
+  return detected
+}
+
+/**
+ * Build the chat messages that ask the provider to rewrite a command for another shell
+ * - The environment is described only when the target is the user's own shell
+ * - A `translate` prompt template replaces the built-in system prompt
+ */
+export function buildTranslationMessages(
+  source: string,
+  to: ShellDialect,
+  from: ShellDialect | undefined,
+  info: EnvironmentInfo,
+  prompts?: PromptTemplates,
+): ChatMessage[] {
+  const target = resolveShellDialect(info.shellName) === to
+    ? ['It will run in this environment:', ...describeEnvironment(info)]
+    : [`It will run in ${DIALECT_LABELS[to]}.`]
+
+  const system = buildSystemPrompt('translate', prompts, {
+    lines: [
+      'You translate shell commands and short scripts from one shell to another.',
+      from ? `The source is written for ${DIALECT_LABELS[from]}.` : 'Work out which shell the source is written for.',
+      ...target,
+      `Rewrite it for ${DIALECT_LABELS[to]}, keeping the behaviour and comments, and use the idioms of the target shell rather than emulating the source.`,
+      'Add a note for every construct whose semantics do not map cleanly, such as word splitting, globbing, exit codes, arrays,',
+      'quoting, here-documents, job control and programs that may not exist on the target.',
+    ],
+    format: [
+      'Reply with JSON only, in the form {"command": "...", "from": "...", "notes": ["..."]}.',
+      `from is the source shell, one of ${SHELL_DIALECTS.join(', ')}. Leave notes empty when everything maps cleanly. Do not wrap the JSON in markdown.`,
+    ],
+    info,
+    variables: { text: source, from: from || '', to },
+  })
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: source },
+  ]
+}
+
+/**
+ * Turn a raw model reply into a translation
+ * - A reply that is not JSON is taken as the translated command without notes
+ */
+export function parseTranslation(raw: string): CommandTranslation {
+  const parsed = parseJsonReply(raw)
+  if (!parsed || typeof parsed.command !== 'string')
+    return { command: stripCodeFence(raw), notes: [], raw }
+
+  return {
+    command: parsed.command.trim(),
+    from: typeof parsed.from === 'string' ? resolveShellDialect(parsed.from) : undefined,
+    notes: Array.isArray(parsed.notes) ? parsed.notes.filter((note): note is string => typeof note === 'string' && Boolean(note.trim())) : [],
+    raw,
+  }
+}
+
+/**
+ * Ask the configured provider to translate a command or short script into the target shell
+ */
+export async function translateCommand(
+  source: string,
+  to: ShellDialect,
+  from: ShellDialect | undefined,
+  info: EnvironmentInfo,
+  config: ShellManConfig,
+  options: CompletionOptions = {},
+): Promise<CommandTranslation> {
+  const cacheKey = getCacheKey(`translate:${from || 'auto'}:${to}`, source, info, config)
+  const raw = await requestCompletion(config, buildTranslationMessages(source, to, from, info, config.PROMPT_TEMPLATES), { ...options, cacheKey })
+  const translation = parseTranslation(raw)
+
+  if (!translation.command)
+    throw new GenerationError('Provider returned an empty translation')
+
+  return { ...translation, from: from || translation.from }
+}
+
+/**
+ * Assess a translated command as the target shell would run it
+ */
+export function analyzeTranslation(command: string, to: ShellDialect, info: EnvironmentInfo): RiskAssessment {
+  return analyzeCommand(command, { ...info, shellName: to })
+}
+
+/**
+ * Print a translation with its notes and the risk of the result in the target shell
+ */
+export function displayTranslation(translation: CommandTranslation, to: ShellDialect, info: EnvironmentInfo): RiskAssessment {
+  const direction = `${translation.from ? DIALECT_LABELS[translation.from] : 'Unknown shell'} → ${DIALECT_LABELS[to]}`
+  logger.info.tag('Translated').data(translation.command).message(direction).appendDivider().print()
+  for (const note of translation.notes)
+    logger.info.tag('Note').data(note).print()
+  if (translation.from === to)
+    logger.info.tag('Note').data(`The source was already written for ${DIALECT_LABELS[to]}`).print()
+
+  const risk = analyzeTranslation(translation.command, to, info)
+  displayRiskAssessment(risk)
+  return risk
+}
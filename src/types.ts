@@ -9,6 +9,40 @@ export interface EnvironmentInfo {
   shellName: string
 }
 
+export interface ToolInfo {
+  name: string
+  path: string
+  version?: string
+}
+
+export type CoreutilsFlavor = 'gnu' | 'bsd' | 'busybox'
+
+// Detailed probe results added on top of the basic environment information
+export interface ExtendedEnvironmentInfo extends EnvironmentInfo {
+  distro?: string
+  packageManager?: string
+  tools: ToolInfo[]
+  coreutils?: CoreutilsFlavor
+  cwd: string
+  isGitRepository: boolean
+  shellVersion?: string
+  // Only gathered when PROJECT_CONTEXT is on
+  project?: ProjectContext
+}
+
+// Summary of the project in the working directory, added to the prompt when PROJECT_CONTEXT is on
+export interface ProjectContext {
+  directory: string
+  // Prompt lines, already cut to CONTEXT_TOKEN_BUDGET
+  lines: string[]
+  // Estimated tokens of the lines
+  tokens: number
+  // Whether facts were shortened or left out to stay within the budget
+  truncated: boolean
+  // Entries matched by the ignore list, never read or sent
+  ignored: string[]
+}
+
 export interface ShellInfo {
   path: string
   name: string
@@ -16,12 +50,426 @@ export interface ShellInfo {
 
 // Configuration Types
 export interface ShellManConfig {
+  configVersion?: number
+  // Resolved at runtime from API_KEYS or SHELLMAN_API_KEY, never written to config.json
   API_KEY: string
+  // Credential reference for each provider, such as `store:openai`, `env:OPENAI_API_KEY` or `cmd:pass show openai`
+  API_KEYS?: Record<string, string>
   API_PROVIDER: string
   API_MODEL: string
   API_CUSTOM_ENDPOINT?: string
   HISTORY_ENABLE: boolean
-  source?: string
+  // Seconds a provider request may take, including a streamed reply
+  REQUEST_TIMEOUT: number
+  // Extra attempts after a rate limit (429) or server error (5xx)
+  REQUEST_RETRIES: number
+  // Seconds a cached reply is reused for, 0 turns the response cache off
+  CACHE_TTL: number
+  // Describe the scripts, tooling and git state of the working directory to the model
+  PROJECT_CONTEXT: boolean
+  // Upper bound for the project description, in estimated tokens
+  CONTEXT_TOKEN_BUDGET: number
+  // Replace secrets, home paths, user and host names in prompts before they are sent
+  REDACT_PROMPTS: boolean
+  // Which detectors REDACT_PROMPTS runs, only read from the global config
+  REDACTION_RULES?: RedactionRules
+  // Named sets of overrides, such as a local ollama model and a hosted one
+  PROFILES?: Record<string, ProfileConfig>
+  // Profile used when no flag, environment variable or directory selects one
+  ACTIVE_PROFILE?: string
+  // Absolute directory paths mapped to the profile used in them and their subdirectories
+  DIRECTORY_PROFILES?: Record<string, string>
+  // Resolved at runtime from the prompts directories, never written to config.json
+  PROMPT_TEMPLATES?: PromptTemplates
+}
+
+// A profile overrides any of the regular keys, its API_KEY is a credential reference
+export type ProfileConfig = Partial<Pick<ShellManConfig, ConfigKey>>
+
+// Where a resolved configuration value came from, lowest priority first
+export type ConfigLayer = 'default' | 'global' | 'profile' | 'project' | 'env' | 'flag' | 'prompt'
+
+export interface ConfigSource {
+  layer: ConfigLayer
+  // File path, environment variable or flag that supplied the value
+  origin: string
+}
+
+export type ConfigProvenance = Partial<Record<keyof ShellManConfig, ConfigSource>>
+
+export interface ResolvedConfig {
+  config: ShellManConfig
+  provenance: ConfigProvenance
+  // Selected profile and what selected it
+  profile?: { name: string, source: ConfigSource }
+}
+
+// Keys that can be read and written through `shellman config get|set`
+export const CONFIG_KEYS = [
+  'API_KEY',
+  'API_PROVIDER',
+  'API_MODEL',
+  'API_CUSTOM_ENDPOINT',
+  'HISTORY_ENABLE',
+  'REQUEST_TIMEOUT',
+  'REQUEST_RETRIES',
+  'CACHE_TTL',
+  'PROJECT_CONTEXT',
+  'CONTEXT_TOKEN_BUDGET',
+  'REDACT_PROMPTS',
+] as const
+
+export type ConfigKey = typeof CONFIG_KEYS[number]
+
+// Credential Types
+export type CredentialBackend = 'env' | 'cmd' | 'store' | 'plain'
+
+export interface CredentialReference {
+  backend: CredentialBackend
+  // Variable name, command line, store entry name or the literal key
+  target: string
+}
+
+// Privacy Types
+export interface RedactionRules {
+  // Tokens with a known format, such as AWS access keys, JWTs and bearer tokens, default on
+  secrets?: boolean
+  // Long random-looking strings no known format matched, default on
+  entropy?: boolean
+  // The home directory, user name and host name of this machine, default on
+  identity?: boolean
+  // Host name suffixes, such as `corp.example.com`, whose hosts are replaced on top of the built-in private ones
+  internalDomains?: string[]
+  // Extra regular expressions whose matches are replaced
+  patterns?: string[]
+  // Values that are never replaced, for false positives
+  allow?: string[]
+}
+
+export type RedactionKind = 'secret' | 'entropy' | 'home' | 'user' | 'hostname' | 'host' | 'pattern'
+
+// A value replaced by a placeholder before a prompt is sent, the original never leaves the machine
+export interface Redaction {
+  placeholder: string
+  kind: RedactionKind
+  // What was detected, such as `AWS access key`
+  label: string
+}
+
+// Prompt Types
+// System prompts that a template file can replace
+export const PROMPT_NAMES = ['generate', 'explain', 'fix', 'plan', 'translate'] as const
+
+export type PromptName = typeof PROMPT_NAMES[number]
+
+// Prompts directories, lowest priority first
+export type PromptLayer = 'global' | 'profile' | 'project'
+
+export interface PromptTemplate {
+  text: string
+  path: string
+  layer: PromptLayer
+}
+
+// Custom system prompts and house rules found for this run
+export interface PromptTemplates {
+  // The highest priority template for each prompt that has one
+  templates: Partial<Record<PromptName, PromptTemplate>>
+  // Rules from every layer, global first, such as `always prefer rg over grep`
+  rules: string[]
+  // Rules files that were read
+  ruleFiles: string[]
+}
+
+// Doctor Types
+export type DoctorStatus = 'ok' | 'warn' | 'fail'
+
+export interface DoctorCheck {
+  name: string
+  status: DoctorStatus
+  detail: string
+}
+
+// Generation Types
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface GeneratedCommand {
+  command: string
+  explanation?: string
+  raw: string
+}
+
+// One of several alternatives, with what is known about it before it runs
+export interface CommandCandidate extends GeneratedCommand {
+  risk: RiskAssessment
+  // Programs the command uses that are not on PATH
+  missingPrograms: string[]
+}
+
+export type CommandAction = 'run' | 'edit' | 'copy' | 'cancel'
+
+// One command of a multi-step plan
+export interface PlanStep {
+  command: string
+  explanation?: string
+}
+
+// Ordered commands for a request that takes several steps
+export interface CommandPlan {
+  summary?: string
+  steps: PlanStep[]
+  raw: string
+}
+
+// A plan step with what is known about it before it runs
+export interface AssessedStep extends PlanStep {
+  risk: RiskAssessment
+  // Programs the step uses that are not on PATH
+  missingPrograms: string[]
+}
+
+export type StepStatus = 'pending' | 'done' | 'failed' | 'skipped'
+
+// Run every step after one confirmation, confirm each step, or only save the script
+export type PlanAction = 'step' | 'all' | 'save' | 'cancel'
+
+export type StepAction = 'run' | 'edit' | 'skip' | 'stop'
+
+// A command that failed, given as flags or recorded by the shell integration hook
+export interface FailedCommand {
+  command: string
+  exitCode?: number
+  stderr?: string
+}
+
+// A corrected command and what went wrong with the failed one
+export interface CommandFix extends GeneratedCommand {
+  problem: string
+}
+
+export interface ExecutionResult {
+  command: string
+  executed: boolean
+  exitCode?: number
+}
+
+// Dry Run Types
+// The tool's own dry-run flag, a run in a throwaway copy of the directory, or a reading of the arguments
+export type PreviewMethod = 'native' | 'sandbox' | 'static' | 'none'
+
+export type PathChange = 'created' | 'modified' | 'deleted'
+
+export interface PathPreview {
+  // Relative to the working directory, directories end with a slash
+  path: string
+  change: PathChange
+}
+
+// What --dry-run found out about a command before it runs
+export interface DryRunPreview {
+  method: PreviewMethod
+  changes: PathPreview[]
+  // The dry-run variant that was run for the native method, and what it printed
+  command?: string
+  output?: string
+  // Limits of the preview, such as programs it could not account for
+  notes: string[]
+}
+
+// History Types
+export interface HistoryEntry {
+  id: string
+  timestamp: string
+  prompt: string
+  command: string
+  provider: string
+  model: string
+  cwd: string
+  shell: string
+  executed: boolean
+  exitCode?: number
+  // Id of the failed entry this command was generated to fix
+  fixOf?: string
+}
+
+// Safety Types
+export type RiskLevel = 'low' | 'medium' | 'high'
+
+export interface RiskAssessment {
+  level: RiskLevel
+  reasons: string[]
+}
+
+// Explanation Types
+export interface ExplanationPart {
+  text: string
+  description: string
+  sideEffects?: string
+}
+
+export interface CommandExplanation {
+  summary: string
+  parts: ExplanationPart[]
+  portable: boolean
+  portabilityNotes?: string
+  raw: string
+}
+
+// Translation Types
+export const SHELL_DIALECTS = ['bash', 'zsh', 'fish', 'sh', 'powershell', 'cmd'] as const
+
+export type ShellDialect = typeof SHELL_DIALECTS[number]
+
+// A command or short script rewritten for another shell
+export interface CommandTranslation {
+  command: string
+  // The source shell, as given with --from or as the model recognized it
+  from?: ShellDialect
+  // Constructs whose semantics do not carry over unchanged
+  notes: string[]
+  raw: string
+}
+
+// Cache Types
+export interface CacheStats {
+  directory: string
+  entries: number
+  expired: number
+  bytes: number
+  oldest?: string
+  newest?: string
+}
+
+// Output Types
+export const OUTPUT_FORMATS = ['pretty', 'json', 'plain'] as const
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number]
+
+export interface OutputTiming {
+  // Milliseconds from start to the printed result
+  totalMs: number
+  // Milliseconds spent waiting for the provider
+  requestMs: number
+}
+
+// A candidate as printed by --format json, without the raw provider reply
+export type CandidateOutput = Omit<CommandCandidate, 'raw'>
+
+// Result of `shellman ask --format json`
+export interface CommandOutput {
+  prompt: string
+  command: string
+  explanation?: string
+  risk: RiskAssessment
+  missingPrograms: string[]
+  // Every generated alternative, the first one is `command`
+  candidates: CandidateOutput[]
+  // Set with --dry-run
+  preview?: DryRunPreview
+  environment: EnvironmentInfo
+  provider: string
+  model: string
+  timing: OutputTiming
+}
+
+// Result of `shellman explain --format json`
+export interface ExplanationOutput {
+  command: string
+  explanation: Omit<CommandExplanation, 'raw'>
+  risk: RiskAssessment
+  environment: EnvironmentInfo
+  provider: string
+  model: string
+  timing: OutputTiming
+}
+
+// Result of `shellman translate --format json`
+export interface TranslationOutput {
+  source: string
+  command: string
+  from?: ShellDialect
+  to: ShellDialect
+  notes: string[]
+  // Risk of the translated command in the target shell
+  risk: RiskAssessment
+  environment: EnvironmentInfo
+  provider: string
+  model: string
+  timing: OutputTiming
+}
+
+// Result of `shellman script --format json`
+export interface PlanOutput {
+  prompt: string
+  summary?: string
+  steps: AssessedStep[]
+  // The plan as a script for the detected shell, as --save writes it
+  script: string
+  environment: EnvironmentInfo
+  provider: string
+  model: string
+  timing: OutputTiming
+}
+
+// Printed by --show-payload instead of sending the request
+export interface PayloadOutput {
+  provider: string
+  model: string
+  endpoint?: string
+  // Exactly the messages the provider would receive, after redaction
+  messages: ChatMessage[]
+  redactions: Redaction[]
+}
+
+// Result of `shellman prompt render --format json`
+export interface PromptRenderOutput {
+  name: PromptName
+  // Template file the system prompt came from, unset for the built-in prompt
+  template?: string
+  layer?: PromptLayer
+  rules: string[]
+  ruleFiles: string[]
+  // The messages before redaction, --show-payload prints them as they are sent
+  messages: ChatMessage[]
+}
+
+// Provider Types
+export interface ProviderRequest {
+  model: string
+  messages: ChatMessage[]
+  apiKey: string
+  endpoint?: string
+  signal?: AbortSignal
+}
+
+export type ModelListRequest = Pick<ProviderRequest, 'apiKey' | 'endpoint' | 'signal'>
+
+export interface Provider {
+  name: string
+  // Fallback list, used when the provider cannot be asked for its models
+  models: string[]
+  // Local servers such as ollama answer without an API key
+  apiKeyOptional?: boolean
+  complete: (request: ProviderRequest) => Promise<string>
+  stream: (request: ProviderRequest) => AsyncIterable<string>
+  // Ask the provider which models it serves, for providers with a models endpoint
+  listModels?: (request: ModelListRequest) => Promise<string[]>
+}
+
+// Where a list of models came from
+export type ModelCatalogSource = 'provider' | 'cache' | 'builtin'
+
+export interface ModelCatalog {
+  provider: string
+  models: string[]
+  source: ModelCatalogSource
+  // When the list was fetched from the provider
+  fetchedAt?: string
+  // Why the provider could not be asked, when the list is a fallback
+  error?: string
 }
 
 // API Provider Constants
@@ -35,21 +483,20 @@ export const API_PROVIDERS = [
   'azure',
 ]
 
-// Model mapping for providers
+// Fallback models for each provider, used offline and before the provider was asked for its catalog
 export const PROVIDER_MODELS: Record<string, string[]> = {
-  openai: ['gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo', 'gpt-4o'],
+  openai: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1', 'gpt-4.1-mini', 'o3-mini', 'gpt-3.5-turbo'],
   anthropic: [
-    'claude-instant-1',
-    'claude-2',
-    'claude-3-opus',
-    'claude-3-sonnet',
-    'claude-3-haiku',
+    'claude-3-5-haiku-latest',
+    'claude-3-5-sonnet-latest',
+    'claude-3-7-sonnet-latest',
+    'claude-3-opus-latest',
   ],
-  google: ['gemini-pro', 'gemini-pro-vision', 'gemini-ultra'],
-  cohere: ['command', 'command-light', 'command-r', 'command-r-plus'],
-  mistral: ['mistral-tiny', 'mistral-small', 'mistral-medium', 'mistral-large'],
-  ollama: ['llama2', 'mistral', 'gemma', 'phi'],
-  azure: ['gpt-35-turbo', 'gpt-4', 'gpt-4-turbo'],
+  google: ['gemini-2.0-flash', 'gemini-1.5-flash', 'gemini-1.5-pro'],
+  cohere: ['command-r', 'command-r-plus', 'command-r7b-12-2024', 'command-a-03-2025'],
+  mistral: ['mistral-small-latest', 'mistral-large-latest', 'codestral-latest', 'open-mistral-nemo'],
+  ollama: ['llama3.1', 'qwen2.5-coder', 'mistral', 'gemma2'],
+  azure: ['gpt-4o-mini', 'gpt-4o', 'gpt-35-turbo'],
 }
 
 // Default config
@@ -58,5 +505,10 @@ export const DEFAULT_CONFIG: ShellManConfig = {
   API_PROVIDER: 'openai',
   API_MODEL: 'gpt-3.5-turbo',
   HISTORY_ENABLE: true,
-  source: undefined,
+  REQUEST_TIMEOUT: 60,
+  REQUEST_RETRIES: 2,
+  CACHE_TTL: 7 * 24 * 60 * 60,
+  PROJECT_CONTEXT: false,
+  CONTEXT_TOKEN_BUDGET: 500,
+  REDACT_PROMPTS: true,
 }
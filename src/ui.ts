@@ -1,4 +1,6 @@
 import prompts from 'prompts'
+import { describeCandidate } from './candidates'
+import type { CommandAction, CommandCandidate, PlanAction, StepAction } from './types'
 
 // Helper function to prompt the user for text input
 export async function promptForText(): Promise<string> {
@@ -14,3 +16,141 @@ export async function promptForText(): Promise<string> {
 
   return response.input
 }
+
+// Ask what to do with a generated command, treating an interrupted prompt as cancel
+export async function promptForAction(): Promise<CommandAction> {
+  const response = await prompts({
+    type: 'select',
+    name: 'action',
+    message: 'What would you like to do with this command?',
+    choices: [
+      { title: 'Run', value: 'run' },
+      { title: 'Edit', value: 'edit' },
+      { title: 'Copy', value: 'copy' },
+      { title: 'Cancel', value: 'cancel' },
+    ],
+  })
+
+  return response.action || 'cancel'
+}
+
+// Let the user edit a command inline, keeping the original if the prompt is interrupted
+export async function promptForEdit(command: string): Promise<string> {
+  const response = await prompts({
+    type: 'text',
+    name: 'command',
+    message: 'Edit command:',
+    initial: command,
+    validate: value => (value.trim().length > 0 ? true : 'Command cannot be empty'),
+  })
+
+  return response.command === undefined ? command : response.command.trim()
+}
+
+// Require the user to type a confirmation word before a high-risk command runs
+export async function promptForTypedConfirmation(expected = 'yes'): Promise<boolean> {
+  const response = await prompts({
+    type: 'text',
+    name: 'confirmation',
+    message: `This command is high risk. Type "${expected}" to run it anyway:`,
+  })
+
+  return response.confirmation?.trim() === expected
+}
+
+// Ask for a secret without echoing it, returning an empty string when the prompt is interrupted
+export async function promptForSecret(message: string): Promise<string> {
+  const response = await prompts({
+    type: 'password',
+    name: 'secret',
+    message,
+  })
+
+  return response.secret || ''
+}
+
+// Let the user pick one of several generated commands, returning undefined when the prompt is interrupted
+export async function promptForCandidate(candidates: CommandCandidate[]): Promise<CommandCandidate | undefined> {
+  const response = await prompts({
+    type: 'select',
+    name: 'index',
+    message: 'Which command would you like to use?',
+    choices: candidates.map((candidate, index) => ({
+      title: `${candidate.missingPrograms.length > 0 ? '✗' : '✓'} ${candidate.command}`,
+      description: describeCandidate(candidate),
+      value: index,
+    })),
+  })
+
+  return response.index === undefined ? undefined : candidates[response.index]
+}
+
+// Ask how to go through a plan, treating an interrupted prompt as cancel
+export async function promptForPlanAction(): Promise<PlanAction> {
+  const response = await prompts({
+    type: 'select',
+    name: 'action',
+    message: 'What would you like to do with this plan?',
+    choices: [
+      { title: 'Run step by step', value: 'step' },
+      { title: 'Run all steps', value: 'all' },
+      { title: 'Save as script', value: 'save' },
+      { title: 'Cancel', value: 'cancel' },
+    ],
+  })
+
+  return response.action || 'cancel'
+}
+
+// Ask what to do with the next step of a plan, treating an interrupted prompt as stop
+export async function promptForStepAction(): Promise<StepAction> {
+  const response = await prompts({
+    type: 'select',
+    name: 'action',
+    message: 'Run this step?',
+    choices: [
+      { title: 'Run', value: 'run' },
+      { title: 'Edit', value: 'edit' },
+      { title: 'Skip', value: 'skip' },
+      { title: 'Stop', value: 'stop' },
+    ],
+  })
+
+  return response.action || 'stop'
+}
+
+// Ask whether to go on after a step failed, stopping when the prompt is interrupted
+export async function promptForContinue(message: string): Promise<boolean> {
+  const response = await prompts({
+    type: 'confirm',
+    name: 'continue',
+    message,
+    initial: false,
+  })
+
+  return Boolean(response.continue)
+}
+
+// Ask where to save a script, returning undefined when the prompt is interrupted
+export async function promptForScriptPath(initial: string): Promise<string | undefined> {
+  const response = await prompts({
+    type: 'text',
+    name: 'path',
+    message: 'Save the script as:',
+    initial,
+    validate: value => (value.trim().length > 0 ? true : 'Path cannot be empty'),
+  })
+
+  return response.path?.trim() || undefined
+}
+
+// Ask for the error a failed command printed, the shell hooks cannot capture it, empty skips
+export async function promptForErrorOutput(): Promise<string | undefined> {
+  const response = await prompts({
+    type: 'text',
+    name: 'stderr',
+    message: 'Paste the error message it printed, or press Enter to skip:',
+  })
+
+  return response.stderr?.trim() || undefined
+}